@@ -0,0 +1,6 @@
+-- Connect Four reads its board dimensions and line length from these keys
+INSERT INTO game_configurations (game_type_id, config_key, config_value, description) VALUES
+    ('connect4', 'rows', '6', 'Number of rows on the board'),
+    ('connect4', 'columns', '7', 'Number of columns on the board'),
+    ('connect4', 'connectLength', '4', 'Pieces in a row needed to win')
+ON CONFLICT (game_type_id, config_key) DO NOTHING;
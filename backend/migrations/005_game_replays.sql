@@ -0,0 +1,2 @@
+-- Replays rebuild the board from game_moves, which needs the exact configuration the game started with
+ALTER TABLE game_sessions ADD COLUMN IF NOT EXISTS config JSONB DEFAULT '{}';
@@ -0,0 +1,9 @@
+-- Computer opponents are stored as users so game_participants and game_moves can reference them.
+-- The ids match BOT_ACCOUNTS in src/games/BotPlayer.ts; the password hash is not a valid bcrypt hash, so nobody can log in as a bot.
+ALTER TABLE users ADD COLUMN IF NOT EXISTS is_bot BOOLEAN DEFAULT false;
+
+INSERT INTO users (id, username, email, password_hash, is_bot) VALUES
+    ('00000000-0000-4000-8000-00000000b001', 'EasyBot', 'easybot@bots.pugg.local', '!', true),
+    ('00000000-0000-4000-8000-00000000b002', 'MediumBot', 'mediumbot@bots.pugg.local', '!', true),
+    ('00000000-0000-4000-8000-00000000b003', 'HardBot', 'hardbot@bots.pugg.local', '!', true)
+ON CONFLICT (id) DO NOTHING;
@@ -0,0 +1,14 @@
+-- One row per player each time a queued match actually starts; feeds the queue wait-time estimates.
+-- estimated_wait_time is what the player was told when they joined, kept alongside the real wait for analytics.
+CREATE TABLE matchmaking_wait_history (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    user_id UUID REFERENCES users(id) ON DELETE CASCADE,
+    game_type VARCHAR(50) NOT NULL,
+    match_type VARCHAR(20) NOT NULL,
+    elo_band INTEGER NOT NULL, -- lower bound of the player's rating band
+    wait_time INTERVAL NOT NULL,
+    estimated_wait_time INTERVAL,
+    matched_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE INDEX idx_wait_history_lookup ON matchmaking_wait_history(game_type, match_type, elo_band, matched_at DESC);
@@ -0,0 +1,15 @@
+-- Rating, deviation and volatility per player per game type, as used by the Glicko-2 engine.
+-- Players without a row start from their overall user_statistics.elo_rating with the initial deviation.
+CREATE TABLE player_ratings (
+    user_id UUID REFERENCES users(id) ON DELETE CASCADE,
+    game_type VARCHAR(50) NOT NULL,
+    rating INTEGER NOT NULL DEFAULT 1000,
+    deviation DOUBLE PRECISION NOT NULL DEFAULT 350,
+    volatility DOUBLE PRECISION NOT NULL DEFAULT 0.06,
+    games_played INTEGER NOT NULL DEFAULT 0,
+    last_rated_at TIMESTAMP,
+    PRIMARY KEY (user_id, game_type)
+);
+
+-- Matchmaking compares deviations as well as ratings
+ALTER TABLE matchmaking_queue ADD COLUMN IF NOT EXISTS rating_deviation DOUBLE PRECISION DEFAULT 350;
@@ -0,0 +1,9 @@
+-- Ratings are kept separately for casual and ranked play of each game type.
+-- Existing rows were all earned in ranked games.
+ALTER TABLE player_ratings ADD COLUMN match_type VARCHAR(20) NOT NULL DEFAULT 'ranked';
+ALTER TABLE player_ratings ALTER COLUMN match_type DROP DEFAULT;
+
+ALTER TABLE player_ratings DROP CONSTRAINT player_ratings_pkey;
+ALTER TABLE player_ratings ADD PRIMARY KEY (user_id, game_type, match_type);
+
+CREATE INDEX idx_player_ratings_leaderboard ON player_ratings(game_type, match_type, rating DESC);
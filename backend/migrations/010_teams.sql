@@ -0,0 +1,5 @@
+-- Team games: queued parties stay together on one side, and each participant records their side.
+ALTER TABLE matchmaking_queue ADD COLUMN IF NOT EXISTS party_id UUID;
+CREATE INDEX IF NOT EXISTS idx_matchmaking_queue_party ON matchmaking_queue(party_id);
+
+ALTER TABLE game_participants ADD COLUMN IF NOT EXISTS team INTEGER;
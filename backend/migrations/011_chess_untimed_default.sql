@@ -0,0 +1,3 @@
+-- Chess is untimed unless time_control is enabled or clockTime is set; drop the 10-minute clockTime default synced earlier.
+UPDATE game_configurations SET config_value = '0'
+WHERE game_type_id = 'chess' AND config_key = 'clockTime' AND config_value = '600';
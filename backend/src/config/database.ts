@@ -13,6 +13,9 @@ export const pool = new Pool({
   connectionTimeoutMillis: 2000,
 });
 
+// The pool, or a client checked out for a transaction
+export type Queryable = Pick<typeof pool, 'query'>;
+
 // Redis client
 export const redis = createClient({
   url: process.env.REDIS_URL,
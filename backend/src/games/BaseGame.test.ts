@@ -0,0 +1,80 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { BaseGame, GameResult, Player } from './BaseGame';
+
+// Free-for-all race: each move scores points, and the game ends once everyone has moved
+class RaceGame extends BaseGame {
+  createInitialState(): any {
+    return { points: {} as Record<string, number> };
+  }
+
+  isValidMove(playerId: string, moveData: any): boolean {
+    return this.getCurrentPlayer().id === playerId && Number.isInteger(moveData?.points);
+  }
+
+  getLegalMoves(): any[] {
+    return [];
+  }
+
+  applyMove(playerId: string, moveData: any): boolean {
+    this.gameData.points[playerId] = moveData.points;
+    return true;
+  }
+
+  checkGameEnd(): GameResult | null {
+    const { points } = this.gameData;
+    if (Object.keys(points).length < this.players.length) return null;
+
+    // Higher scores place better; equal scores share a placement
+    const placements = Object.fromEntries(this.players.map(p => [
+      p.id,
+      1 + this.players.filter(other => points[other.id] > points[p.id]).length
+    ]));
+    const winner = this.players.find(p => placements[p.id] === 1)!;
+    return {
+      isFinished: true,
+      result: 'win',
+      winner,
+      scores: new Map(),
+      duration: 0,
+      totalMoves: this.moves.length,
+      endReason: `${winner.username} scored the most`,
+      placements
+    };
+  }
+
+  getDisplayState(): any {
+    return this.gameData;
+  }
+
+  getScores(): Map<string, number> {
+    return new Map(Object.entries(this.gameData.points));
+  }
+}
+
+function players(...ids: string[]): Player[] {
+  return ids.map(id => ({ id, username: id, elo: 1000, isConnected: true }));
+}
+
+test('placements reported by checkGameEnd reach the final result', () => {
+  const game = new RaceGame('race', 'race', players('a', 'b', 'c', 'd'));
+  game.start();
+  game.makeMove('a', { points: 3 });
+  game.makeMove('b', { points: 9 });
+  game.makeMove('c', { points: 3 });
+  game.makeMove('d', { points: 1 });
+
+  const { status, result } = game.getGameState();
+  assert.equal(status, 'finished');
+  assert.deepEqual(result!.placements, { a: 2, b: 1, c: 2, d: 4 });
+});
+
+test('a free-for-all forfeiter places last and everyone else ties', () => {
+  const game = new RaceGame('race', 'race', players('a', 'b', 'c'));
+  game.start();
+  game.playerForfeit('a');
+
+  const { result } = game.getGameState();
+  assert.equal(result!.winner, null);
+  assert.deepEqual(result!.placements, { a: 2, b: 1, c: 1 });
+});
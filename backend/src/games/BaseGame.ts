@@ -1,4 +1,5 @@
 import { EventEmitter } from 'events';
+import { GameRegistry } from './GameRegistry';
 
 export interface Player {
   id: string;
@@ -6,6 +7,9 @@ export interface Player {
   socketId?: string;
   elo: number;
   isConnected: boolean;
+  isBot?: boolean; // server-side computer opponent, never has a socket
+  provisional?: boolean; // ranked rating still too uncertain to be trusted
+  team?: number; // side in team games; players without one play for themselves
 }
 
 export interface Move {
@@ -19,10 +23,12 @@ export interface GameResult {
   isFinished: boolean;
   result: 'win' | 'draw' | 'forfeit' | 'timeout' | 'disconnect';
   winner?: Player | null;
+  winningTeam?: number | null; // in team games the winner's whole side wins
   scores: Map<string, number>;
   duration: number; // in seconds
   totalMoves: number;
   endReason: string;
+  placements?: Record<string, number>; // final standing by player id, 1 is best; equal placements tie
 }
 
 export interface GameState {
@@ -35,6 +41,43 @@ export interface GameState {
   startTime: Date;
   status: 'waiting' | 'playing' | 'paused' | 'finished';
   result?: GameResult;
+  clocks: ClockState | null;
+}
+
+export interface ClockState {
+  remaining: Record<string, number>; // ms left per player, as of now
+  activePlayerId: string | null; // whose clock is running
+  initialTime: number; // ms
+  increment: number; // ms added after every completed turn (Fischer)
+  delay: number; // ms of every turn that is refunded (Bronstein)
+}
+
+// Moves that must be played before the same player may offer another draw
+export const DRAW_OFFER_MOVE_GAP = 2;
+
+// Bump whenever the snapshot layout changes; restore() refuses other versions
+export const SNAPSHOT_VERSION = 3;
+
+// JSON-safe checkpoint of a game, enough to rebuild it in another process
+export interface GameSnapshot {
+  version: number;
+  gameId: string;
+  gameType: string;
+  config: any;
+  players: Player[];
+  currentPlayerIndex: number;
+  gameData: any;
+  moves: (Omit<Move, 'timestamp'> & { timestamp: string })[];
+  startTime: string;
+  status: GameState['status'];
+  result: (Omit<GameResult, 'scores'> & { scores: Record<string, number> }) | null;
+  clocks: {
+    moveTimeRemaining: number | null; // ms left for the player to move
+    gameTimeRemaining: number | null; // ms left on the overall game clock
+    players: Record<string, number> | null; // ms left on each player's clock
+  };
+  drawOffer: { playerId: string; moveNumber: number } | null;
+  lastDrawOfferAt: Record<string, number>;
 }
 
 export abstract class BaseGame extends EventEmitter {
@@ -49,28 +92,51 @@ export abstract class BaseGame extends EventEmitter {
   protected result?: GameResult;
   protected moveTimeLimit?: number; // seconds per move
   protected gameTimeLimit?: number; // total game time
+  protected clockTime?: number; // seconds on each player's clock
+  protected clockIncrement: number; // seconds added after each turn
+  protected clockDelay: number; // seconds per turn that do not count against the clock
+  private config: any;
   private moveTimer?: NodeJS.Timeout;
   private gameTimer?: NodeJS.Timeout;
+  private moveDeadline?: number; // epoch ms when the move timer fires
+  private gameDeadline?: number; // epoch ms when the game timer fires
+  private playerClocks: Record<string, number> | null = null; // ms left when the running turn began
+  private turnStartedAt?: number; // epoch ms when the running clock was started
+  private flagTimer?: NodeJS.Timeout;
+  private drawOffer: { playerId: string; moveNumber: number } | null = null;
+  private lastDrawOfferAt: Record<string, number> = {}; // playerId -> move count when they last offered
 
   constructor(gameId: string, gameType: string, players: Player[], config?: any) {
     super();
     this.gameId = gameId;
     this.gameType = gameType;
+    this.config = config ?? {};
     this.players = players.map(p => ({ ...p, isConnected: true }));
     this.gameData = this.createInitialState(config);
     this.startTime = new Date();
     this.moveTimeLimit = config?.moveTimeLimit;
     this.gameTimeLimit = config?.gameTimeLimit;
+    this.clockTime = config?.clockTime || this.readTimeControl(config?.time_control);
+    this.clockIncrement = config?.clockIncrement || 0;
+    this.clockDelay = config?.clockDelay || 0;
   }
 
   // Abstract methods that must be implemented by each game
   abstract createInitialState(config?: any): any;
   abstract isValidMove(playerId: string, moveData: any): boolean;
+  // Every move the player could make right now, in the same shape makeMove accepts
+  abstract getLegalMoves(playerId: string): any[];
   abstract applyMove(playerId: string, moveData: any): boolean;
   abstract checkGameEnd(): GameResult | null;
   abstract getDisplayState(): any;
   abstract getScores(): Map<string, number>;
 
+  // Games where one player may move several times in a row (e.g. multi-jumps)
+  // override this to keep the turn after an applied move
+  protected isTurnComplete(): boolean {
+    return true;
+  }
+
   // Start the game
   start(): void {
     if (this.status !== 'waiting') return;
@@ -79,21 +145,150 @@ export abstract class BaseGame extends EventEmitter {
     this.startTime = new Date();
     
     if (this.gameTimeLimit) {
-      this.gameTimer = setTimeout(() => {
-        this.endGame('timeout', 'Game time limit reached');
-      }, this.gameTimeLimit * 1000);
+      this.startGameTimer(this.gameTimeLimit * 1000);
+    }
+
+    if (this.clockTime) {
+      this.playerClocks = Object.fromEntries(this.players.map(p => [p.id, this.clockTime! * 1000]));
+      this.startPlayerClock();
     }
     
     this.startMoveTimer();
     this.emit('gameStarted', this.getGameState());
   }
 
+  // Turn order for a team game: sides take turns, each rotating through its own members
+  // (A1, B1, A2, B2, ...). Sides are ordered by their first player, so shuffling beforehand picks who starts.
+  static seatTeams(players: Player[]): Player[] {
+    if (!players.some(p => p.team !== undefined)) return players;
+
+    const sides = new Map<number | string, Player[]>();
+    for (const player of players) {
+      const side = player.team ?? player.id;
+      sides.set(side, [...(sides.get(side) ?? []), player]);
+    }
+
+    const seated: Player[] = [];
+    const longest = Math.max(...Array.from(sides.values()).map(members => members.length));
+    for (let seat = 0; seat < longest; seat++) {
+      for (const members of sides.values()) {
+        if (members[seat]) seated.push(members[seat]);
+      }
+    }
+    return seated;
+  }
+
+  // Rebuild a game from serialize() output; running games resume with the clock time they had left
+  static restore(snapshot: GameSnapshot): BaseGame {
+    if (snapshot?.version !== SNAPSHOT_VERSION) {
+      throw new Error(`Unsupported game snapshot version: ${snapshot?.version}`);
+    }
+
+    const definition = GameRegistry.get(snapshot.gameType);
+    if (!definition) {
+      throw new Error(`Unsupported game type: ${snapshot.gameType}`);
+    }
+
+    const game = new definition.gameClass(snapshot.gameId, snapshot.gameType, snapshot.players, snapshot.config);
+    game.hydrate(snapshot);
+    return game;
+  }
+
+  // Board after every ply of a recorded game: frame 0 is the starting position, frame n follows move n.
+  // Moves are applied directly, so no timers are started and nothing is emitted.
+  static buildReplayFrames(
+    gameType: string,
+    players: Player[],
+    config: any,
+    moves: Pick<Move, 'playerId' | 'moveData'>[]
+  ): any[] {
+    const definition = GameRegistry.get(gameType);
+    if (!definition) {
+      throw new Error(`Unsupported game type: ${gameType}`);
+    }
+
+    const game = new definition.gameClass('replay', gameType, players, GameRegistry.resolveConfig(gameType, config));
+    const frames = [game.toJson(game.getDisplayState())];
+
+    for (const move of moves) {
+      game.simulateMove(move.playerId, move.moveData);
+      frames.push(game.toJson(game.getDisplayState()));
+    }
+
+    return frames;
+  }
+
+  // Timer-free copy of the current position, for bots to search ahead on
+  fork(): BaseGame {
+    const GameClass = this.constructor as new (gameId: string, gameType: string, players: Player[], config?: any) => BaseGame;
+    const copy = new GameClass(this.gameId, this.gameType, this.players, this.config);
+    copy.gameData = this.toJson(this.gameData);
+    copy.currentPlayerIndex = this.currentPlayerIndex;
+    copy.moves = [...this.moves];
+    copy.status = this.status;
+    return copy;
+  }
+
+  // Apply a legal move without clocks or events; the game is marked finished if the move ends it
+  simulateMove(playerId: string, moveData: any): GameResult | null {
+    this.applyMove(playerId, moveData);
+    this.moves.push({ playerId, moveData, timestamp: new Date(), moveNumber: this.moves.length + 1 });
+
+    const endResult = this.checkGameEnd();
+    if (endResult) {
+      this.status = 'finished';
+      this.result = endResult;
+    } else if (this.isTurnComplete()) {
+      this.nextPlayer();
+    }
+    return endResult;
+  }
+
+  // Same state always yields the same snapshot, apart from the remaining clock times
+  serialize(): GameSnapshot {
+    const now = Date.now();
+
+    return {
+      version: SNAPSHOT_VERSION,
+      gameId: this.gameId,
+      gameType: this.gameType,
+      config: this.toJson(this.config),
+      players: this.players.map(p => ({ ...p })),
+      currentPlayerIndex: this.currentPlayerIndex,
+      gameData: this.toJson(this.gameData),
+      moves: this.moves.map(m => ({
+        playerId: m.playerId,
+        moveData: this.toJson(m.moveData),
+        timestamp: m.timestamp.toISOString(),
+        moveNumber: m.moveNumber
+      })),
+      startTime: this.startTime.toISOString(),
+      status: this.status,
+      result: this.result
+        ? { ...this.result, scores: Object.fromEntries(this.result.scores) }
+        : null,
+      clocks: {
+        moveTimeRemaining: this.moveDeadline !== undefined ? Math.max(0, this.moveDeadline - now) : null,
+        gameTimeRemaining: this.gameDeadline !== undefined ? Math.max(0, this.gameDeadline - now) : null,
+        players: this.getClockState()?.remaining ?? null
+      },
+      drawOffer: this.drawOffer ? { ...this.drawOffer } : null,
+      lastDrawOfferAt: { ...this.lastDrawOfferAt }
+    };
+  }
+
   // Make a move
   makeMove(playerId: string, moveData: any): boolean {
     if (this.status !== 'playing') return false;
     if (this.getCurrentPlayer().id !== playerId) return false;
     if (!this.isValidMove(playerId, moveData)) return false;
 
+    // The flag can fall just before its timer callback gets to run
+    if (this.getRemainingTime(playerId) === 0) {
+      this.flagPlayer(this.getCurrentPlayer());
+      return false;
+    }
+
     // Clear move timer
     if (this.moveTimer) {
       clearTimeout(this.moveTimer);
@@ -112,12 +307,22 @@ export abstract class BaseGame extends EventEmitter {
     };
     this.moves.push(move);
 
+    // Moving instead of answering a draw offer declines it
+    if (this.drawOffer && this.drawOffer.playerId !== playerId) {
+      this.clearDrawOffer('expired');
+    }
+
     // Check for game end
     const endResult = this.checkGameEnd();
     if (endResult) {
-      this.endGame(endResult.result, endResult.endReason, endResult.winner || undefined);
+      this.stopPlayerClock(true);
+      this.endGame(endResult.result, endResult.endReason, endResult.winner || undefined, endResult.placements);
     } else {
-      this.nextPlayer();
+      if (this.isTurnComplete()) {
+        this.stopPlayerClock(true);
+        this.nextPlayer();
+        this.startPlayerClock();
+      }
       this.startMoveTimer();
     }
 
@@ -129,6 +334,82 @@ export abstract class BaseGame extends EventEmitter {
     return true;
   }
 
+  // Offer a draw to the opponents; an offer stands until it is answered or an opponent moves
+  offerDraw(playerId: string): boolean {
+    if (this.status !== 'playing' || this.drawOffer) return false;
+    if (!this.players.some(p => p.id === playerId)) return false;
+
+    // Rate limit: no new offer until play has moved on since the last one
+    const lastOffer = this.lastDrawOfferAt[playerId];
+    if (lastOffer !== undefined && this.moves.length - lastOffer < DRAW_OFFER_MOVE_GAP) return false;
+
+    this.drawOffer = { playerId, moveNumber: this.moves.length };
+    this.lastDrawOfferAt[playerId] = this.moves.length;
+
+    this.emit('drawOffered', { playerId, gameState: this.getGameState() });
+    return true;
+  }
+
+  respondToDraw(playerId: string, accept: boolean): boolean {
+    if (this.status !== 'playing' || !this.drawOffer) return false;
+    if (this.drawOffer.playerId === playerId || !this.players.some(p => p.id === playerId)) return false;
+
+    if (accept) {
+      this.endGame('draw', 'Draw by agreement', null);
+    } else {
+      this.clearDrawOffer('declined');
+    }
+    return true;
+  }
+
+  // The player whose draw offer is waiting for an answer, if any
+  getDrawOfferPlayerId(): string | null {
+    return this.drawOffer?.playerId ?? null;
+  }
+
+  // Roll back the player's most recent turn, plus any replies to it, by replaying the move list
+  takeback(playerId: string): Move[] | null {
+    if (this.status !== 'playing') return null;
+
+    const count = this.getTakebackLength(playerId);
+    if (count === 0) return null;
+
+    if (this.moveTimer) {
+      clearTimeout(this.moveTimer);
+    }
+
+    // Time spent so far stays spent; the clock restarts for whoever is on move after the rollback
+    this.stopPlayerClock(false);
+    this.clearDrawOffer('expired');
+    const undone = this.moves.slice(this.moves.length - count);
+    this.replay(this.moves.slice(0, this.moves.length - count));
+    // Offers made on the undone moves count from where play resumes, so the gap never goes negative
+    for (const [id, moveCount] of Object.entries(this.lastDrawOfferAt)) {
+      this.lastDrawOfferAt[id] = Math.min(moveCount, this.moves.length);
+    }
+    this.startPlayerClock();
+    this.startMoveTimer();
+
+    this.emit('movesUndone', {
+      moves: undone,
+      gameState: this.getGameState()
+    });
+
+    return undone;
+  }
+
+  // How many trailing moves a takeback by this player removes; 0 if they have not moved yet
+  getTakebackLength(playerId: string): number {
+    let index = this.moves.map(m => m.playerId).lastIndexOf(playerId);
+    if (index === -1) return 0;
+
+    // A turn can span several moves (multi-jumps), so go back to where it began
+    while (index > 0 && this.moves[index - 1].playerId === playerId) {
+      index--;
+    }
+    return this.moves.length - index;
+  }
+
   // Player disconnection
   playerDisconnected(playerId: string): void {
     const player = this.players.find(p => p.id === playerId);
@@ -141,7 +422,9 @@ export abstract class BaseGame extends EventEmitter {
       setTimeout(() => {
         if (!player.isConnected && this.status === 'playing') {
           const remainingPlayers = this.players.filter(p => p.isConnected);
-          if (remainingPlayers.length === 1) {
+          if (remainingPlayers.length === 0) {
+            this.abandon();
+          } else if (remainingPlayers.every(p => this.onSameSide(p, remainingPlayers[0]))) {
             this.endGame('disconnect', `${player.username} disconnected`, remainingPlayers[0]);
           }
         }
@@ -169,8 +452,7 @@ export abstract class BaseGame extends EventEmitter {
     const forfeiter = this.players.find(p => p.id === playerId);
     if (!forfeiter) return;
 
-    const winner = this.players.find(p => p.id !== playerId);
-    this.endGame('forfeit', `${forfeiter.username} forfeited`, winner);
+    this.endWithLoser(forfeiter, 'forfeit', `${forfeiter.username} forfeited`);
   }
 
   // Get current player
@@ -178,41 +460,173 @@ export abstract class BaseGame extends EventEmitter {
     return this.players[this.currentPlayerIndex];
   }
 
+  protected onSameSide(a: Player, b: Player): boolean {
+    return a.id === b.id || (a.team !== undefined && a.team === b.team);
+  }
+
   // Move to next player
   private nextPlayer(): void {
     this.currentPlayerIndex = (this.currentPlayerIndex + 1) % this.players.length;
   }
 
+  private clearDrawOffer(reason: 'declined' | 'expired'): void {
+    if (!this.drawOffer) return;
+
+    const { playerId } = this.drawOffer;
+    this.drawOffer = null;
+    this.emit('drawDeclined', { playerId, reason });
+  }
+
+  // Remaining clock time for a player, or null when the game has no clocks
+  private getRemainingTime(playerId: string): number | null {
+    if (!this.playerClocks) return null;
+
+    const running = this.turnStartedAt !== undefined && this.getCurrentPlayer().id === playerId;
+    const elapsed = running ? Date.now() - this.turnStartedAt! : 0;
+    return Math.max(0, this.playerClocks[playerId] - elapsed);
+  }
+
+  private startPlayerClock(): void {
+    if (!this.playerClocks) return;
+
+    const player = this.getCurrentPlayer();
+    this.turnStartedAt = Date.now();
+    if (this.flagTimer) clearTimeout(this.flagTimer);
+    this.flagTimer = setTimeout(() => this.flagPlayer(player), this.playerClocks[player.id]);
+  }
+
+  // Charge the running clock for this turn; a completed turn earns the delay refund and increment
+  private stopPlayerClock(turnCompleted: boolean): void {
+    if (!this.playerClocks || this.turnStartedAt === undefined) return;
+
+    if (this.flagTimer) clearTimeout(this.flagTimer);
+    const playerId = this.getCurrentPlayer().id;
+    const elapsed = Date.now() - this.turnStartedAt;
+
+    let remaining = this.playerClocks[playerId] - elapsed;
+    if (turnCompleted && remaining > 0) {
+      remaining += Math.min(elapsed, this.clockDelay * 1000) + this.clockIncrement * 1000;
+    }
+    this.playerClocks[playerId] = Math.max(0, remaining);
+    this.turnStartedAt = undefined;
+  }
+
+  private flagPlayer(player: Player): void {
+    if (this.status !== 'playing') return;
+
+    this.endWithLoser(player, 'timeout', `${player.username} ran out of time`);
+  }
+
+  // The loser's whole side loses. Against a single other side that side wins; in a free-for-all
+  // nobody is handed the win, so the loser places last and everyone else ties ahead of them.
+  private endWithLoser(loser: Player, result: 'forfeit' | 'timeout', reason: string): void {
+    const opponents = this.players.filter(p => !this.onSameSide(p, loser));
+    if (new Set(opponents.map(p => p.team ?? p.id)).size <= 1) {
+      this.endGame(result, reason, opponents[0]);
+      return;
+    }
+
+    const placements = Object.fromEntries(this.players.map(p => [p.id, this.onSameSide(p, loser) ? 2 : 1]));
+    this.endGame(result, reason, null, placements);
+  }
+
+  // Rebuild gameData from scratch by applying the given moves in order
+  private replay(moves: Move[]): void {
+    this.gameData = this.createInitialState(this.config);
+    this.currentPlayerIndex = 0;
+    this.moves = [];
+
+    for (const move of moves) {
+      this.applyMove(move.playerId, move.moveData);
+      this.moves.push(move);
+      if (this.isTurnComplete()) {
+        this.nextPlayer();
+      }
+    }
+  }
+
   // Start move timer
-  private startMoveTimer(): void {
+  private startMoveTimer(durationMs?: number): void {
     if (!this.moveTimeLimit) return;
 
+    const duration = durationMs ?? this.moveTimeLimit * 1000;
+    this.moveDeadline = Date.now() + duration;
     this.moveTimer = setTimeout(() => {
       // Auto-forfeit on timeout
       const currentPlayer = this.getCurrentPlayer();
       this.playerForfeit(currentPlayer.id);
-    }, this.moveTimeLimit * 1000);
+    }, duration);
+  }
+
+  // The time_control row from game_configurations, e.g. { "enabled": true, "minutes": 10 }; games are untimed unless it is enabled
+  private readTimeControl(timeControl: any): number | undefined {
+    const minutes = Number(timeControl?.minutes);
+    return timeControl?.enabled === true && minutes > 0 ? minutes * 60 : undefined;
+  }
+
+  private startGameTimer(durationMs: number): void {
+    this.gameDeadline = Date.now() + durationMs;
+    this.gameTimer = setTimeout(() => {
+      this.endGame('timeout', 'Game time limit reached');
+    }, durationMs);
+  }
+
+  private hydrate(snapshot: GameSnapshot): void {
+    this.players = snapshot.players.map(p => ({ ...p }));
+    this.currentPlayerIndex = snapshot.currentPlayerIndex;
+    this.gameData = this.toJson(snapshot.gameData);
+    this.moves = snapshot.moves.map(m => ({ ...m, timestamp: new Date(m.timestamp) }));
+    this.startTime = new Date(snapshot.startTime);
+    this.status = snapshot.status;
+    this.result = snapshot.result
+      ? { ...snapshot.result, scores: new Map(Object.entries(snapshot.result.scores)) }
+      : undefined;
+    this.playerClocks = snapshot.clocks.players ? { ...snapshot.clocks.players } : null;
+    this.drawOffer = snapshot.drawOffer ? { ...snapshot.drawOffer } : null;
+    this.lastDrawOfferAt = { ...snapshot.lastDrawOfferAt };
+
+    if (this.status !== 'playing') return;
+
+    this.startPlayerClock();
+
+    if (snapshot.clocks.gameTimeRemaining !== null) {
+      this.startGameTimer(snapshot.clocks.gameTimeRemaining);
+    }
+    this.startMoveTimer(snapshot.clocks.moveTimeRemaining ?? undefined);
+  }
+
+  // Deep copy through JSON so snapshots never share references with live state
+  private toJson(value: any): any {
+    return value === undefined ? null : JSON.parse(JSON.stringify(value));
   }
 
   // End the game
-  private endGame(result: GameResult['result'], reason: string, winner?: Player | null): void {
+  // Games that rank every player pass their placements; otherwise getPlacements() derives them from the winner
+  private endGame(
+    result: GameResult['result'],
+    reason: string,
+    winner?: Player | null,
+    placements?: Record<string, number>
+  ): void {
     if (this.status === 'finished') return;
 
-    // Clear timers
-    if (this.moveTimer) clearTimeout(this.moveTimer);
-    if (this.gameTimer) clearTimeout(this.gameTimer);
-
+    this.stopTimers();
     this.status = 'finished';
     
+    this.drawOffer = null;
     this.result = {
       isFinished: true,
       result,
       winner: winner || null,
-      scores: this.getScores(),
+      winningTeam: winner?.team ?? null,
+      scores: new Map(),
       duration: Math.floor((Date.now() - this.startTime.getTime()) / 1000),
       totalMoves: this.moves.length,
       endReason: reason
     };
+    // getScores() reads this.result, so final scores can only be computed once it is set
+    this.result.scores = this.getScores();
+    this.result.placements = placements ?? this.getPlacements();
 
     this.emit('gameEnded', {
       result: this.result,
@@ -220,6 +634,31 @@ export abstract class BaseGame extends EventEmitter {
     });
   }
 
+  // Everyone left and nobody came back: stop the clocks and drop the game without a result
+  private abandon(): void {
+    if (this.status === 'finished') return;
+
+    this.stopTimers();
+    this.status = 'finished';
+    this.drawOffer = null;
+    this.emit('gameAbandoned', { gameState: this.getGameState() });
+  }
+
+  private stopTimers(): void {
+    this.stopPlayerClock(false);
+    if (this.moveTimer) clearTimeout(this.moveTimer);
+    if (this.gameTimer) clearTimeout(this.gameTimer);
+    this.moveDeadline = undefined;
+    this.gameDeadline = undefined;
+  }
+
+  // Final standings once the game has ended, for games whose checkGameEnd() does not rank everyone;
+  // by default the winner's side places first and everyone else ties behind them
+  protected getPlacements(): Record<string, number> {
+    const winner = this.result?.winner;
+    return Object.fromEntries(this.players.map(p => [p.id, !winner || this.onSameSide(p, winner) ? 1 : 2]));
+  }
+
   // Get complete game state
   getGameState(): GameState {
     return {
@@ -231,10 +670,28 @@ export abstract class BaseGame extends EventEmitter {
       moves: this.moves,
       startTime: this.startTime,
       status: this.status,
-      result: this.result
+      result: this.result,
+      clocks: this.getClockState()
     };
   }
 
+  getClockState(): ClockState | null {
+    if (!this.playerClocks) return null;
+
+    return {
+      remaining: Object.fromEntries(this.players.map(p => [p.id, this.getRemainingTime(p.id)!])),
+      activePlayerId: this.turnStartedAt !== undefined ? this.getCurrentPlayer().id : null,
+      initialTime: (this.clockTime ?? 0) * 1000,
+      increment: this.clockIncrement * 1000,
+      delay: this.clockDelay * 1000
+    };
+  }
+
+  // Resolved configuration the game was created with
+  getConfig(): any {
+    return this.toJson(this.config);
+  }
+
   // Get game statistics
   getGameStats(): any {
     const duration = this.status === 'finished' 
@@ -0,0 +1,146 @@
+import { BaseGame, Player } from './BaseGame';
+import { GameRegistry } from './GameRegistry';
+
+export type BotDifficulty = 'easy' | 'medium' | 'hard';
+
+export const BOT_DIFFICULTIES: BotDifficulty[] = ['easy', 'medium', 'hard'];
+
+// Per-game move selection, declared on the game's GameDefinition
+export interface BotStrategy {
+  // Only called on the bot's turn, with at least one legal move available
+  chooseMove(game: BaseGame, botId: string, difficulty: BotDifficulty): any;
+}
+
+interface BotAccount {
+  id: string;
+  username: string;
+  elo: number;
+}
+
+// Seeded by migration 006, so bot moves and participants reference real user rows
+export const BOT_ACCOUNTS: Record<BotDifficulty, BotAccount> = {
+  easy: { id: '00000000-0000-4000-8000-00000000b001', username: 'EasyBot', elo: 800 },
+  medium: { id: '00000000-0000-4000-8000-00000000b002', username: 'MediumBot', elo: 1200 },
+  hard: { id: '00000000-0000-4000-8000-00000000b003', username: 'HardBot', elo: 1600 }
+};
+
+// Drives a bot seat in a running game: a Player with no socket that answers the game's events
+export class BotPlayer {
+  private static readonly THINK_TIME_MIN = 400; // ms, so bot replies do not feel instant
+  private static readonly THINK_TIME_MAX = 1200;
+  // Chance of playing a random legal move instead of the strategy's choice
+  private static readonly RANDOM_MOVE_CHANCE: Record<BotDifficulty, number> = {
+    easy: 0.4,
+    medium: 0.1,
+    hard: 0
+  };
+
+  private moveTimer: NodeJS.Timeout | null = null;
+
+  private constructor(
+    private game: BaseGame,
+    readonly player: Player,
+    readonly difficulty: BotDifficulty,
+    private strategy: BotStrategy
+  ) {}
+
+  static isDifficulty(value: any): value is BotDifficulty {
+    return BOT_DIFFICULTIES.includes(value);
+  }
+
+  static createPlayer(difficulty: BotDifficulty): Player {
+    const account = BOT_ACCOUNTS[difficulty];
+    return {
+      id: account.id,
+      username: account.username,
+      elo: account.elo,
+      isConnected: true,
+      isBot: true
+    };
+  }
+
+  static difficultyOf(userId: string): BotDifficulty | undefined {
+    return BOT_DIFFICULTIES.find(difficulty => BOT_ACCOUNTS[difficulty].id === userId);
+  }
+
+  static isBot(userId: string): boolean {
+    return this.difficultyOf(userId) !== undefined;
+  }
+
+  static supports(gameType: string): boolean {
+    return !!GameRegistry.get(gameType)?.botStrategy;
+  }
+
+  // Hook a bot seat up to its game; if the game is already running and it is the bot's turn, it moves
+  static attach(game: BaseGame, player: Player): BotPlayer {
+    const strategy = GameRegistry.get(game.getGameState().gameType)?.botStrategy;
+    const difficulty = this.difficultyOf(player.id);
+    if (!strategy || !difficulty) {
+      throw new Error(`No bot available for ${game.getGameState().gameType}`);
+    }
+
+    const bot = new BotPlayer(game, player, difficulty, strategy);
+    bot.listen();
+    bot.scheduleMove();
+    return bot;
+  }
+
+  stop(): void {
+    if (this.moveTimer) {
+      clearTimeout(this.moveTimer);
+      this.moveTimer = null;
+    }
+  }
+
+  private listen(): void {
+    this.game.on('gameStarted', () => this.scheduleMove());
+    this.game.on('moveMade', () => this.scheduleMove());
+    this.game.on('movesUndone', () => this.scheduleMove());
+    this.game.on('gameEnded', () => this.stop());
+
+    // Bots play every game out
+    this.game.on('drawOffered', ({ playerId }) => {
+      if (playerId !== this.player.id) {
+        setImmediate(() => this.game.respondToDraw(this.player.id, false));
+      }
+    });
+  }
+
+  private isBotTurn(): boolean {
+    return this.game.getGameState().status === 'playing' && this.game.getCurrentPlayer().id === this.player.id;
+  }
+
+  private scheduleMove(): void {
+    this.stop();
+    if (!this.isBotTurn()) return;
+
+    const thinkTime = BotPlayer.THINK_TIME_MIN + Math.random() * (BotPlayer.THINK_TIME_MAX - BotPlayer.THINK_TIME_MIN);
+    this.moveTimer = setTimeout(() => {
+      this.moveTimer = null;
+      this.playMove();
+    }, thinkTime);
+  }
+
+  private playMove(): void {
+    // The position may have changed (takeback, game end) while the bot was thinking
+    if (!this.isBotTurn()) return;
+
+    const legalMoves = this.game.getLegalMoves(this.player.id);
+    if (legalMoves.length === 0) return;
+
+    const randomMove = legalMoves[Math.floor(Math.random() * legalMoves.length)];
+    let move = randomMove;
+    if (Math.random() >= BotPlayer.RANDOM_MOVE_CHANCE[this.difficulty]) {
+      try {
+        move = this.strategy.chooseMove(this.game, this.player.id, this.difficulty) ?? randomMove;
+      } catch (error) {
+        console.error(`[BOT] ${this.player.username} strategy failed, playing a random move:`, error);
+      }
+    }
+
+    if (!this.game.makeMove(this.player.id, move)) {
+      console.error(`[BOT] ${this.player.username} chose an illegal move:`, move);
+      this.game.makeMove(this.player.id, randomMove);
+    }
+  }
+}
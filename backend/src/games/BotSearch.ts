@@ -0,0 +1,80 @@
+import { BaseGame } from './BaseGame';
+
+// Position score from the bot's point of view; positive is good for the bot
+export type Evaluator = (game: BaseGame, botId: string) => number;
+
+export class BotSearch {
+  static readonly WIN_SCORE = 1000000;
+
+  // Depth-limited alpha-beta over forked games. Works for any BaseGame, including
+  // turns that span several moves, because the side to move is read from each fork.
+  static bestMove(game: BaseGame, botId: string, depth: number, evaluate: Evaluator): any {
+    const moves = this.shuffle(game.getLegalMoves(botId)); // equal moves are picked at random
+    let bestMove = moves[0];
+    let alpha = -Infinity;
+
+    for (const move of moves) {
+      const child = game.fork();
+      child.simulateMove(botId, move);
+
+      const score = this.search(child, botId, depth - 1, alpha, Infinity, evaluate, 1);
+      if (score > alpha) {
+        alpha = score;
+        bestMove = move;
+      }
+    }
+
+    return bestMove;
+  }
+
+  static shuffle<T>(items: T[]): T[] {
+    const shuffled = [...items];
+    for (let i = shuffled.length - 1; i > 0; i--) {
+      const j = Math.floor(Math.random() * (i + 1));
+      [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
+    }
+    return shuffled;
+  }
+
+  private static search(
+    game: BaseGame,
+    botId: string,
+    depth: number,
+    alpha: number,
+    beta: number,
+    evaluate: Evaluator,
+    ply: number
+  ): number {
+    const { status, result } = game.getGameState();
+    if (status === 'finished') {
+      // Prefer quick wins and slow losses
+      if (!result?.winner) return 0;
+      return result.winner.id === botId ? this.WIN_SCORE - ply : -this.WIN_SCORE + ply;
+    }
+    if (depth <= 0) return evaluate(game, botId);
+
+    const moverId = game.getCurrentPlayer().id;
+    const moves = game.getLegalMoves(moverId);
+    if (moves.length === 0) return evaluate(game, botId);
+
+    const maximizing = moverId === botId;
+    let value = maximizing ? -Infinity : Infinity;
+
+    for (const move of moves) {
+      const child = game.fork();
+      child.simulateMove(moverId, move);
+      const score = this.search(child, botId, depth - 1, alpha, beta, evaluate, ply + 1);
+
+      if (maximizing) {
+        value = Math.max(value, score);
+        alpha = Math.max(alpha, value);
+      } else {
+        value = Math.min(value, score);
+        beta = Math.min(beta, value);
+      }
+      if (alpha >= beta) break;
+    }
+
+    return value;
+  }
+}
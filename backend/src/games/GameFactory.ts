@@ -1,35 +1,26 @@
-import { BaseGame } from './BaseGame';
-import { Player } from './types';
-import { TicTacToeGame } from './tictactoe';
-import { CheckersGame } from './checkers';
-import { ChessGame } from './chess';
-import { Connect4Game } from './connect4';
+import { BaseGame, Player } from './BaseGame';
+import { GameRegistry } from './GameRegistry';
 
 export class GameFactory {
-  static createGame(gameType: string, players: Player[], configurations?: Record<string, any>): BaseGame {
-    switch (gameType) {
-      case 'tictactoe':
-        return new TicTacToeGame(players, configurations);
-      
-      case 'checkers':
-        return new CheckersGame(players, configurations);
-      
-      case 'chess':
-        return new ChessGame(players, configurations);
-      
-      case 'connect4':
-        return new Connect4Game(players, configurations);
-      
-      default:
-        throw new Error(`Unsupported game type: ${gameType}`);
+  static createGame(gameId: string, gameType: string, players: Player[], configurations?: Record<string, any>): BaseGame {
+    const definition = GameRegistry.get(gameType);
+    if (!definition) {
+      throw new Error(`Unsupported game type: ${gameType}`);
     }
+
+    if (players.length < definition.minPlayers || players.length > definition.maxPlayers) {
+      throw new Error(`${definition.name} needs ${definition.minPlayers}-${definition.maxPlayers} players, got ${players.length}`);
+    }
+
+    const config = GameRegistry.resolveConfig(gameType, configurations);
+    return new definition.gameClass(gameId, gameType, players, config);
   }
 
   static getSupportedGames(): string[] {
-    return ['tictactoe', 'checkers', 'chess', 'connect4'];
+    return GameRegistry.getAll().map(definition => definition.id);
   }
 
   static isGameSupported(gameType: string): boolean {
-    return this.getSupportedGames().includes(gameType);
+    return GameRegistry.has(gameType);
   }
 }
@@ -0,0 +1,159 @@
+import fs from 'fs';
+import path from 'path';
+import { BaseGame, Player } from './BaseGame';
+import type { BotStrategy } from './BotPlayer';
+import { GameType, GameTypeModel } from '../models/GameType';
+
+export interface GameConfigOption {
+  type: 'number' | 'boolean' | 'string' | 'object';
+  default: any;
+  description: string;
+  min?: number;
+  max?: number;
+}
+
+export type GameConstructor = new (
+  gameId: string,
+  gameType: string,
+  players: Player[],
+  config?: any
+) => BaseGame;
+
+// Everything the platform needs to know about a game, declared once in its folder
+export interface GameDefinition {
+  id: string;
+  name: string;
+  description: string;
+  minPlayers: number;
+  maxPlayers: number;
+  teamSize?: number; // players per side in team games; omitted, everyone plays for themselves
+  estimatedDuration: string; // Postgres interval text, e.g. '15 minutes'
+  difficultyLevel: 'easy' | 'medium' | 'hard';
+  icon: string;
+  rules: string;
+  tags: string[];
+  configSchema: Record<string, GameConfigOption>;
+  gameClass: GameConstructor;
+  botStrategy?: BotStrategy; // enables "Play vs Computer" for this game
+}
+
+export class GameRegistry {
+  private static definitions = new Map<string, GameDefinition>();
+  private static loaded = false;
+
+  static register(definition: GameDefinition): void {
+    if (this.definitions.has(definition.id)) {
+      throw new Error(`Game type already registered: ${definition.id}`);
+    }
+    if (definition.minPlayers < 1 || definition.maxPlayers < definition.minPlayers) {
+      throw new Error(`Invalid player bounds for game type: ${definition.id}`);
+    }
+    if (definition.teamSize !== undefined && (definition.teamSize < 1 || definition.maxPlayers % definition.teamSize !== 0)) {
+      throw new Error(`Invalid team size for game type: ${definition.id}`);
+    }
+    this.definitions.set(definition.id, definition);
+  }
+
+  static get(gameType: string): GameDefinition | undefined {
+    this.ensureLoaded();
+    return this.definitions.get(gameType);
+  }
+
+  static getAll(): GameDefinition[] {
+    this.ensureLoaded();
+    return Array.from(this.definitions.values());
+  }
+
+  static has(gameType: string): boolean {
+    return this.get(gameType) !== undefined;
+  }
+
+  // Schema defaults overlaid with stored configuration; invalid values fall back to defaults
+  static resolveConfig(gameType: string, overrides: Record<string, any> = {}): Record<string, any> {
+    const definition = this.get(gameType);
+    if (!definition) {
+      throw new Error(`Unsupported game type: ${gameType}`);
+    }
+
+    const config: Record<string, any> = { ...overrides };
+    for (const [key, option] of Object.entries(definition.configSchema)) {
+      if (!(key in overrides)) {
+        config[key] = option.default;
+        continue;
+      }
+
+      if (!this.isValidOption(option, overrides[key])) {
+        console.warn(`[GAMES] Invalid ${gameType} config ${key}=${JSON.stringify(overrides[key])}, using default`);
+        config[key] = option.default;
+      }
+    }
+    return config;
+  }
+
+  // Shape used by the game_types table and /api/games/types
+  static toGameType(definition: GameDefinition): GameType {
+    return {
+      id: definition.id,
+      name: definition.name,
+      description: definition.description,
+      min_players: definition.minPlayers,
+      max_players: definition.maxPlayers,
+      team_size: definition.teamSize,
+      estimated_duration: definition.estimatedDuration,
+      difficulty_level: definition.difficultyLevel,
+      is_active: true,
+      icon: definition.icon,
+      rules: definition.rules,
+      tags: definition.tags,
+      created_at: new Date(),
+      updated_at: new Date()
+    };
+  }
+
+  // Make the game_types and game_configurations tables mirror the registered modules
+  static async syncToDatabase(): Promise<void> {
+    for (const definition of this.getAll()) {
+      await GameTypeModel.upsert(this.toGameType(definition));
+
+      for (const [key, option] of Object.entries(definition.configSchema)) {
+        await GameTypeModel.ensureConfiguration({
+          game_type_id: definition.id,
+          config_key: key,
+          config_value: option.default,
+          description: option.description
+        });
+      }
+    }
+    console.log(`[GAMES] Synced ${this.definitions.size} game types to the database`);
+  }
+
+  private static isValidOption(option: GameConfigOption, value: any): boolean {
+    if (option.type === 'object') {
+      return value !== null && typeof value === 'object';
+    }
+    if (typeof value !== option.type) return false;
+    if (option.type === 'number') {
+      if (option.min !== undefined && value < option.min) return false;
+      if (option.max !== undefined && value > option.max) return false;
+    }
+    return true;
+  }
+
+  // Each subfolder of games/ is a game module exporting `gameDefinition` from its index
+  private static ensureLoaded(): void {
+    if (this.loaded) return;
+    this.loaded = true;
+
+    const entries = fs.readdirSync(__dirname, { withFileTypes: true });
+    for (const entry of entries) {
+      if (!entry.isDirectory()) continue;
+
+      const gameModule = require(path.join(__dirname, entry.name));
+      if (gameModule.gameDefinition) {
+        this.register(gameModule.gameDefinition);
+      }
+    }
+
+    console.log(`[GAMES] Registered game types: ${Array.from(this.definitions.keys()).join(', ')}`);
+  }
+}
@@ -0,0 +1,42 @@
+import { BaseGame } from '../BaseGame';
+import { BotDifficulty, BotStrategy } from '../BotPlayer';
+import { BotSearch } from '../BotSearch';
+
+const SEARCH_DEPTH: Record<BotDifficulty, number> = {
+  easy: 2,
+  medium: 4,
+  hard: 6
+};
+
+const MAN_VALUE = 100;
+const KING_VALUE = 160;
+
+// Alpha-beta on material, with a nudge for men that are close to promotion
+export class CheckersBot implements BotStrategy {
+  chooseMove(game: BaseGame, botId: string, difficulty: BotDifficulty): any {
+    return BotSearch.bestMove(game, botId, SEARCH_DEPTH[difficulty], (position, playerId) => this.evaluate(position, playerId));
+  }
+
+  private evaluate(game: BaseGame, botId: string): number {
+    const { board, colors } = game.getGameState().gameData;
+    const mine = colors[botId] === 'red' ? 'r' : 'b';
+    const size = board.length;
+    let score = 0;
+
+    for (let row = 0; row < size; row++) {
+      for (let col = 0; col < size; col++) {
+        const piece: string | null = board[row][col];
+        if (!piece) continue;
+
+        const isKing = piece === piece.toUpperCase();
+        // Red men promote on row 0, black men on the last row
+        const advancement = piece.toLowerCase() === 'r' ? size - 1 - row : row;
+        const value = isKing ? KING_VALUE : MAN_VALUE + advancement * 2;
+
+        score += piece.toLowerCase() === mine ? value : -value;
+      }
+    }
+
+    return score;
+  }
+}
@@ -0,0 +1,263 @@
+import { BaseGame, GameResult } from '../BaseGame';
+
+type CheckersPiece = 'r' | 'R' | 'b' | 'B'; // lowercase = man, uppercase = king
+type CheckersColor = 'red' | 'black';
+
+interface Square {
+  row: number;
+  col: number;
+}
+
+interface CheckersState {
+  board: (CheckersPiece | null)[][];
+  colors: Record<string, CheckersColor>; // playerId -> color
+  pendingJumpFrom: Square | null; // piece that must continue a multi-jump
+  movesSinceCapture: number;
+  capturedPieces: Record<string, number>; // playerId -> pieces captured
+  drawMoveLimit: number;
+}
+
+interface CheckersMove {
+  from: Square;
+  to: Square;
+}
+
+const BOARD_SIZE = 8;
+const DEFAULT_DRAW_MOVE_LIMIT = 40; // moves per side without a capture
+
+export class CheckersGame extends BaseGame {
+  createInitialState(config?: any): CheckersState {
+    const board: (CheckersPiece | null)[][] = [];
+    for (let row = 0; row < BOARD_SIZE; row++) {
+      board.push(Array(BOARD_SIZE).fill(null));
+      for (let col = 0; col < BOARD_SIZE; col++) {
+        if ((row + col) % 2 === 0) continue; // pieces only live on dark squares
+        if (row < 3) board[row][col] = 'b';
+        if (row > 4) board[row][col] = 'r';
+      }
+    }
+
+    // Red starts at the bottom and moves first
+    return {
+      board,
+      colors: {
+        [this.players[0].id]: 'red',
+        [this.players[1].id]: 'black'
+      },
+      pendingJumpFrom: null,
+      movesSinceCapture: 0,
+      capturedPieces: {
+        [this.players[0].id]: 0,
+        [this.players[1].id]: 0
+      },
+      drawMoveLimit: config?.drawMoveLimit || DEFAULT_DRAW_MOVE_LIMIT
+    };
+  }
+
+  isValidMove(playerId: string, moveData: CheckersMove): boolean {
+    if (this.getCurrentPlayer().id !== playerId) return false;
+    if (!this.isSquare(moveData?.from) || !this.isSquare(moveData?.to)) return false;
+
+    const color = this.gameData.colors[playerId];
+    return this.getMovesForColor(color).some(move =>
+      this.sameSquare(move.from, moveData.from) && this.sameSquare(move.to, moveData.to)
+    );
+  }
+
+  getLegalMoves(playerId: string): CheckersMove[] {
+    if (this.status !== 'playing' || this.getCurrentPlayer().id !== playerId) return [];
+
+    return this.getMovesForColor(this.gameData.colors[playerId]);
+  }
+
+  applyMove(playerId: string, moveData: CheckersMove): boolean {
+    const { board } = this.gameData;
+    const { from, to } = moveData;
+    const piece = board[from.row][from.col] as CheckersPiece;
+
+    board[to.row][to.col] = piece;
+    board[from.row][from.col] = null;
+
+    const isCapture = Math.abs(to.row - from.row) === 2;
+    if (isCapture) {
+      board[(from.row + to.row) / 2][(from.col + to.col) / 2] = null;
+      this.gameData.capturedPieces[playerId]++;
+      this.gameData.movesSinceCapture = 0;
+    }
+
+    // Promotion ends the turn even if further jumps would be possible
+    const promoted = this.shouldPromote(piece, to.row);
+    if (promoted) {
+      board[to.row][to.col] = piece.toUpperCase() as CheckersPiece;
+    }
+
+    if (isCapture && !promoted && this.getCapturesFrom(to).length > 0) {
+      this.gameData.pendingJumpFrom = to;
+    } else {
+      this.gameData.pendingJumpFrom = null;
+      if (!isCapture) {
+        this.gameData.movesSinceCapture++;
+      }
+    }
+
+    return true;
+  }
+
+  protected isTurnComplete(): boolean {
+    return this.gameData.pendingJumpFrom === null;
+  }
+
+  checkGameEnd(): GameResult | null {
+    if (this.gameData.pendingJumpFrom) return null;
+
+    const mover = this.getCurrentPlayer();
+    const opponent = this.players.find(p => p.id !== mover.id)!;
+
+    // The side to move next loses if it has no pieces or no legal moves
+    if (this.getMovesForColor(this.gameData.colors[opponent.id]).length === 0) {
+      return {
+        isFinished: true,
+        result: 'win',
+        winner: mover,
+        scores: this.getScores(),
+        duration: Math.floor((Date.now() - this.startTime.getTime()) / 1000),
+        totalMoves: this.moves.length,
+        endReason: `${mover.username} wins - ${opponent.username} has no legal moves!`
+      };
+    }
+
+    // Each side gets drawMoveLimit moves, so the limit is counted in plies
+    if (this.gameData.movesSinceCapture >= this.gameData.drawMoveLimit * 2) {
+      return {
+        isFinished: true,
+        result: 'draw',
+        winner: null,
+        scores: this.getScores(),
+        duration: Math.floor((Date.now() - this.startTime.getTime()) / 1000),
+        totalMoves: this.moves.length,
+        endReason: `Draw - ${this.gameData.drawMoveLimit} moves each without a capture`
+      };
+    }
+
+    return null; // Game continues
+  }
+
+  getDisplayState(): any {
+    return {
+      board: this.gameData.board,
+      colors: this.gameData.colors,
+      pendingJumpFrom: this.gameData.pendingJumpFrom,
+      movesSinceCapture: this.gameData.movesSinceCapture,
+      capturedPieces: this.gameData.capturedPieces,
+      currentPlayer: this.getCurrentPlayer().id
+    };
+  }
+
+  getScores(): Map<string, number> {
+    const scores = new Map<string, number>();
+
+    if (this.result) {
+      if (this.result.result === 'draw') {
+        this.players.forEach(player => {
+          scores.set(player.id, 0.5);
+        });
+      } else {
+        // Win, forfeit, timeout or disconnect
+        this.players.forEach(player => {
+          scores.set(player.id, player.id === this.result!.winner?.id ? 1 : 0);
+        });
+      }
+    } else {
+      // Game in progress: pieces captured so far
+      this.players.forEach(player => {
+        scores.set(player.id, this.gameData.capturedPieces[player.id] || 0);
+      });
+    }
+
+    return scores;
+  }
+
+  // All legal moves for a color, honouring forced captures and multi-jump continuation
+  private getMovesForColor(color: CheckersColor): CheckersMove[] {
+    const { board, pendingJumpFrom } = this.gameData;
+
+    if (pendingJumpFrom) {
+      return this.getCapturesFrom(pendingJumpFrom);
+    }
+
+    const captures: CheckersMove[] = [];
+    const steps: CheckersMove[] = [];
+
+    for (let row = 0; row < BOARD_SIZE; row++) {
+      for (let col = 0; col < BOARD_SIZE; col++) {
+        const piece = board[row][col];
+        if (!piece || this.colorOf(piece) !== color) continue;
+
+        const from = { row, col };
+        captures.push(...this.getCapturesFrom(from));
+        if (captures.length === 0) {
+          steps.push(...this.getStepsFrom(from));
+        }
+      }
+    }
+
+    return captures.length > 0 ? captures : steps;
+  }
+
+  private getStepsFrom(from: Square): CheckersMove[] {
+    const { board } = this.gameData;
+    const piece = board[from.row][from.col] as CheckersPiece;
+
+    return this.getDirections(piece)
+      .map(([dRow, dCol]) => ({ row: from.row + dRow, col: from.col + dCol }))
+      .filter(to => this.isOnBoard(to) && board[to.row][to.col] === null)
+      .map(to => ({ from, to }));
+  }
+
+  private getCapturesFrom(from: Square): CheckersMove[] {
+    const { board } = this.gameData;
+    const piece = board[from.row][from.col];
+    if (!piece) return [];
+
+    const moves: CheckersMove[] = [];
+    for (const [dRow, dCol] of this.getDirections(piece)) {
+      const over = { row: from.row + dRow, col: from.col + dCol };
+      const to = { row: from.row + dRow * 2, col: from.col + dCol * 2 };
+      if (!this.isOnBoard(to) || board[to.row][to.col] !== null) continue;
+
+      const jumped = board[over.row][over.col];
+      if (jumped && this.colorOf(jumped) !== this.colorOf(piece)) {
+        moves.push({ from, to });
+      }
+    }
+    return moves;
+  }
+
+  private getDirections(piece: CheckersPiece): [number, number][] {
+    if (piece === 'R' || piece === 'B') {
+      return [[-1, -1], [-1, 1], [1, -1], [1, 1]];
+    }
+    // Red men move up the board, black men move down
+    return piece === 'r' ? [[-1, -1], [-1, 1]] : [[1, -1], [1, 1]];
+  }
+
+  private shouldPromote(piece: CheckersPiece, row: number): boolean {
+    return (piece === 'r' && row === 0) || (piece === 'b' && row === BOARD_SIZE - 1);
+  }
+
+  private colorOf(piece: CheckersPiece): CheckersColor {
+    return piece.toLowerCase() === 'r' ? 'red' : 'black';
+  }
+
+  private isSquare(square: any): square is Square {
+    return !!square && Number.isInteger(square.row) && Number.isInteger(square.col) && this.isOnBoard(square);
+  }
+
+  private isOnBoard(square: Square): boolean {
+    return square.row >= 0 && square.row < BOARD_SIZE && square.col >= 0 && square.col < BOARD_SIZE;
+  }
+
+  private sameSquare(a: Square, b: Square): boolean {
+    return a.row === b.row && a.col === b.col;
+  }
+}
@@ -0,0 +1,29 @@
+import type { GameDefinition } from '../GameRegistry';
+import { CheckersGame } from './CheckersGame';
+import { CheckersBot } from './CheckersBot';
+
+export { CheckersGame };
+
+export const gameDefinition: GameDefinition = {
+  id: 'checkers',
+  name: 'Checkers',
+  description: 'Strategic board game with jumping and capturing',
+  minPlayers: 2,
+  maxPlayers: 2,
+  estimatedDuration: '15 minutes',
+  difficultyLevel: 'medium',
+  icon: '🔴',
+  rules: 'Move your pieces diagonally and jump over opponents to capture them. Get your pieces to the other end to become kings!',
+  tags: ['strategy', 'classic', 'board'],
+  configSchema: {
+    drawMoveLimit: {
+      type: 'number',
+      default: 40,
+      min: 10,
+      max: 200,
+      description: 'Moves per side without a capture before the game is drawn'
+    }
+  },
+  gameClass: CheckersGame,
+  botStrategy: new CheckersBot()
+};
@@ -0,0 +1,104 @@
+import { BaseGame } from '../BaseGame';
+import { BotDifficulty, BotStrategy } from '../BotPlayer';
+import { BotSearch } from '../BotSearch';
+import { ChessMove, ChessPosition, ChessRules } from './ChessRules';
+
+const SEARCH_DEPTH: Record<BotDifficulty, number> = {
+  easy: 1,
+  medium: 2,
+  hard: 3
+};
+
+const QUIESCENCE_DEPTH = 4; // captures followed past the search horizon
+const MATE_SCORE = 100000;
+const PIECE_VALUES: Record<string, number> = { p: 100, n: 320, b: 330, r: 500, q: 900, k: 0 };
+
+// Negamax alpha-beta straight on ChessRules positions, which is far cheaper than forking ChessGame
+export class ChessBot implements BotStrategy {
+  chooseMove(game: BaseGame, botId: string, difficulty: BotDifficulty): any {
+    const position = ChessRules.parseFen(game.getGameState().gameData.fen);
+    const moves = this.orderMoves(BotSearch.shuffle(ChessRules.generateLegalMoves(position)));
+
+    let bestMove = moves[0];
+    let alpha = -Infinity;
+    for (const move of moves) {
+      const score = -this.negamax(ChessRules.applyMove(position, move), SEARCH_DEPTH[difficulty] - 1, -Infinity, -alpha, 1);
+      if (score > alpha) {
+        alpha = score;
+        bestMove = move;
+      }
+    }
+
+    return {
+      from: ChessRules.squareName(bestMove.from),
+      to: ChessRules.squareName(bestMove.to),
+      ...(bestMove.promotion ? { promotion: bestMove.promotion } : {})
+    };
+  }
+
+  // Score for the side to move
+  private negamax(position: ChessPosition, depth: number, alpha: number, beta: number, ply: number): number {
+    const moves = ChessRules.generateLegalMoves(position);
+    if (moves.length === 0) {
+      return ChessRules.isInCheck(position, position.turn) ? -MATE_SCORE + ply : 0;
+    }
+    if (position.halfmoveClock >= 100 || ChessRules.isInsufficientMaterial(position)) return 0;
+    if (depth <= 0) return this.quiescence(position, moves, alpha, beta, QUIESCENCE_DEPTH);
+
+    for (const move of this.orderMoves(moves)) {
+      const score = -this.negamax(ChessRules.applyMove(position, move), depth - 1, -beta, -alpha, ply + 1);
+      if (score >= beta) return score;
+      alpha = Math.max(alpha, score);
+    }
+    return alpha;
+  }
+
+  // Only captures are searched, so a trade started at the horizon is seen through
+  private quiescence(position: ChessPosition, moves: ChessMove[], alpha: number, beta: number, depth: number): number {
+    const standPat = this.evaluate(position);
+    if (standPat >= beta || depth === 0) return standPat;
+    alpha = Math.max(alpha, standPat);
+
+    for (const move of this.orderMoves(moves.filter(m => m.captured))) {
+      const next = ChessRules.applyMove(position, move);
+      const score = -this.quiescence(next, ChessRules.generateLegalMoves(next), -beta, -alpha, depth - 1);
+      if (score >= beta) return score;
+      alpha = Math.max(alpha, score);
+    }
+    return alpha;
+  }
+
+  // Most valuable victim first, taken by the least valuable attacker
+  private orderMoves(moves: ChessMove[]): ChessMove[] {
+    const weight = (move: ChessMove) => move.captured
+      ? PIECE_VALUES[move.captured.toLowerCase()] * 10 - PIECE_VALUES[move.piece.toLowerCase()]
+      : (move.promotion ? PIECE_VALUES[move.promotion] : 0);
+    return [...moves].sort((a, b) => weight(b) - weight(a));
+  }
+
+  // Material plus small bonuses for central minor pieces and advanced pawns
+  private evaluate(position: ChessPosition): number {
+    let score = 0;
+
+    position.board.forEach((piece, square) => {
+      if (!piece) return;
+
+      const type = piece.toLowerCase();
+      const isWhite = piece !== type;
+      const row = Math.floor(square / 8); // row 0 is rank 8
+      const col = square % 8;
+
+      let value = PIECE_VALUES[type];
+      if (type === 'n' || type === 'b') {
+        value -= (Math.abs(3.5 - row) + Math.abs(3.5 - col)) * 5;
+      }
+      if (type === 'p') {
+        value += (isWhite ? 6 - row : row - 1) * 5;
+      }
+
+      score += isWhite ? value : -value;
+    });
+
+    return position.turn === 'w' ? score : -score;
+  }
+}
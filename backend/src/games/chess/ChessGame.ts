@@ -0,0 +1,176 @@
+import { BaseGame, GameResult, Player } from '../BaseGame';
+import { ChessRules, ChessColor, ChessMove, ChessPosition } from './ChessRules';
+
+interface ChessState {
+  position: ChessPosition;
+  colors: Record<string, ChessColor>; // playerId -> color
+  positionCounts: Record<string, number>; // positionKey -> occurrences, for threefold repetition
+  history: ChessHistoryEntry[];
+}
+
+interface ChessHistoryEntry {
+  san: string;
+  uci: string;
+  fen: string; // position after the move
+}
+
+// Either a UCI/SAN string or explicit squares, e.g. { from: 'e7', to: 'e8', promotion: 'q' }
+interface ChessMoveInput {
+  move?: string;
+  from?: string;
+  to?: string;
+  promotion?: string;
+  san?: string; // informational only, included in getLegalMoves output
+}
+
+export class ChessGame extends BaseGame {
+  createInitialState(config?: any): ChessState {
+    const position = config?.fen
+      ? ChessRules.parseFen(config.fen)
+      : ChessRules.createStartingPosition();
+
+    // The first player always moves first, so they take the side to move
+    return {
+      position,
+      colors: {
+        [this.players[0].id]: position.turn,
+        [this.players[1].id]: position.turn === 'w' ? 'b' : 'w'
+      },
+      positionCounts: { [ChessRules.positionKey(position)]: 1 },
+      history: []
+    };
+  }
+
+  isValidMove(playerId: string, moveData: ChessMoveInput): boolean {
+    if (this.getCurrentPlayer().id !== playerId) return false;
+    if (this.gameData.colors[playerId] !== this.gameData.position.turn) return false;
+
+    return this.resolveMove(moveData) !== null;
+  }
+
+  getLegalMoves(playerId: string): ChessMoveInput[] {
+    if (this.status !== 'playing' || this.getCurrentPlayer().id !== playerId) return [];
+
+    const { position } = this.gameData;
+    const legalMoves = ChessRules.generateLegalMoves(position);
+    return legalMoves.map(move => ({
+      from: ChessRules.squareName(move.from),
+      to: ChessRules.squareName(move.to),
+      ...(move.promotion ? { promotion: move.promotion } : {}),
+      san: ChessRules.toSan(position, move, legalMoves)
+    }));
+  }
+
+  applyMove(playerId: string, moveData: ChessMoveInput): boolean {
+    const move = this.resolveMove(moveData);
+    if (!move) return false;
+
+    const before: ChessPosition = this.gameData.position;
+    const san = ChessRules.toSan(before, move);
+    const position = ChessRules.applyMove(before, move);
+    const key = ChessRules.positionKey(position);
+
+    this.gameData.position = position;
+    this.gameData.positionCounts[key] = (this.gameData.positionCounts[key] || 0) + 1;
+    this.gameData.history.push({
+      san,
+      uci: ChessRules.toUci(move),
+      fen: ChessRules.toFen(position)
+    });
+
+    return true;
+  }
+
+  checkGameEnd(): GameResult | null {
+    const { position, positionCounts } = this.gameData;
+    const mover = this.getCurrentPlayer();
+
+    if (ChessRules.generateLegalMoves(position).length === 0) {
+      if (ChessRules.isInCheck(position, position.turn)) {
+        return this.createResult('win', mover, `${mover.username} wins by checkmate!`);
+      }
+      return this.createResult('draw', null, 'Draw by stalemate');
+    }
+
+    if (positionCounts[ChessRules.positionKey(position)] >= 3) {
+      return this.createResult('draw', null, 'Draw by threefold repetition');
+    }
+
+    if (position.halfmoveClock >= 100) {
+      return this.createResult('draw', null, 'Draw by the fifty-move rule');
+    }
+
+    if (ChessRules.isInsufficientMaterial(position)) {
+      return this.createResult('draw', null, 'Draw by insufficient material');
+    }
+
+    return null; // Game continues
+  }
+
+  getDisplayState(): any {
+    const { position, colors, history } = this.gameData;
+    const lastMove = history[history.length - 1];
+
+    return {
+      fen: ChessRules.toFen(position),
+      turn: position.turn,
+      colors,
+      inCheck: ChessRules.isInCheck(position, position.turn),
+      lastMove: lastMove
+        ? { from: lastMove.uci.slice(0, 2), to: lastMove.uci.slice(2, 4), san: lastMove.san }
+        : null,
+      history: history.map((entry: ChessHistoryEntry) => entry.san),
+      currentPlayer: this.getCurrentPlayer().id
+    };
+  }
+
+  getScores(): Map<string, number> {
+    const scores = new Map<string, number>();
+
+    if (this.result) {
+      if (this.result.result === 'draw') {
+        this.players.forEach(player => {
+          scores.set(player.id, 0.5);
+        });
+      } else {
+        // Win, forfeit, timeout or disconnect
+        this.players.forEach(player => {
+          scores.set(player.id, player.id === this.result!.winner?.id ? 1 : 0);
+        });
+      }
+    } else {
+      // Game in progress
+      this.players.forEach(player => {
+        scores.set(player.id, 0);
+      });
+    }
+
+    return scores;
+  }
+
+  // Translate any accepted input format into one of the legal moves
+  private resolveMove(moveData: ChessMoveInput): ChessMove | null {
+    if (!moveData) return null;
+
+    let notation: string | undefined;
+    if (typeof moveData.move === 'string') {
+      notation = moveData.move;
+    } else if (typeof moveData.from === 'string' && typeof moveData.to === 'string') {
+      notation = moveData.from + moveData.to + (moveData.promotion || '');
+    }
+
+    return notation ? ChessRules.parseMove(this.gameData.position, notation) : null;
+  }
+
+  private createResult(result: GameResult['result'], winner: Player | null, endReason: string): GameResult {
+    return {
+      isFinished: true,
+      result,
+      winner,
+      scores: this.getScores(),
+      duration: Math.floor((Date.now() - this.startTime.getTime()) / 1000),
+      totalMoves: this.moves.length,
+      endReason
+    };
+  }
+}
@@ -0,0 +1,70 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { ChessPosition, ChessRules } from './ChessRules';
+
+// Leaf-node counts of the legal move tree, the standard check for move generators.
+// Reference numbers from https://www.chessprogramming.org/Perft_Results
+function perft(position: ChessPosition, depth: number): number {
+  const moves = ChessRules.generateLegalMoves(position);
+  if (depth === 1) return moves.length;
+
+  return moves.reduce((nodes, move) => nodes + perft(ChessRules.applyMove(position, move), depth - 1), 0);
+}
+
+const PERFT_CASES: { name: string; fen: string; nodes: number[] }[] = [
+  {
+    name: 'starting position',
+    fen: ChessRules.STARTING_FEN,
+    nodes: [20, 400, 8902]
+  },
+  {
+    name: 'castling, en passant and promotions (Kiwipete)',
+    fen: 'r3k2r/p1ppqpb1/bn2pnp1/3PN3/1p2P3/2N2Q1p/PPPBBPPP/R3K2R w KQkq - 0 1',
+    nodes: [48, 2039, 97862]
+  },
+  {
+    name: 'en passant discovered checks along a rank',
+    fen: '8/2p5/3p4/KP5r/1R3p1k/8/4P1P1/8 w - - 0 1',
+    nodes: [14, 191, 2812, 43238]
+  },
+  {
+    name: 'promotions and castling out of check',
+    fen: 'r3k2r/Pppp1ppp/1b3nbN/nP6/BBP1P3/q4N2/Pp1P2PP/R2Q1RK1 w kq - 0 1',
+    nodes: [6, 264, 9467]
+  },
+  {
+    name: 'promotion with capture next to the king',
+    fen: 'rnbq1k1r/pp1Pbppp/2p5/8/2B5/8/PPP1NnPP/RNBQK2R w KQ - 1 8',
+    nodes: [44, 1486, 62379]
+  }
+];
+
+for (const { name, fen, nodes } of PERFT_CASES) {
+  test(`perft: ${name}`, () => {
+    const position = ChessRules.parseFen(fen);
+    nodes.forEach((expected, index) => {
+      assert.equal(perft(position, index + 1), expected, `depth ${index + 1}`);
+    });
+  });
+}
+
+test('FEN round-trips through parseFen and toFen', () => {
+  for (const { fen } of PERFT_CASES) {
+    assert.equal(ChessRules.toFen(ChessRules.parseFen(fen)), fen);
+  }
+});
+
+test('parseMove accepts SAN and UCI for castling, en passant and promotion', () => {
+  const castling = ChessRules.parseFen('r3k2r/8/8/8/8/8/8/R3K2R w KQkq - 0 1');
+  assert.equal(ChessRules.toUci(ChessRules.parseMove(castling, 'O-O')!), 'e1g1');
+  assert.equal(ChessRules.toUci(ChessRules.parseMove(castling, 'e1c1')!), 'e1c1');
+
+  const enPassant = ChessRules.parseFen('4k3/8/8/3pP3/8/8/8/4K3 w - d6 0 2');
+  const capture = ChessRules.parseMove(enPassant, 'exd6')!;
+  assert.equal(ChessRules.toUci(capture), 'e5d6');
+  assert.equal(ChessRules.toFen(ChessRules.applyMove(enPassant, capture)), '4k3/8/3P4/8/8/8/8/4K3 b - - 0 2');
+
+  const promotion = ChessRules.parseFen('8/P6k/8/8/8/8/8/4K3 w - - 0 1');
+  assert.equal(ChessRules.toSan(promotion, ChessRules.parseMove(promotion, 'a7a8n')!), 'a8=N');
+  assert.equal(ChessRules.parseMove(promotion, 'a7a6'), null);
+});
@@ -0,0 +1,446 @@
+export type ChessColor = 'w' | 'b';
+
+// Pieces use FEN letters: uppercase = white, lowercase = black
+export interface ChessPosition {
+  board: (string | null)[]; // 64 squares, index 0 = a8, index 63 = h1
+  turn: ChessColor;
+  castling: string; // subset of 'KQkq', '' when nobody can castle
+  enPassant: number | null; // square a pawn may capture onto en passant
+  halfmoveClock: number;
+  fullmoveNumber: number;
+}
+
+export interface ChessMove {
+  from: number;
+  to: number;
+  piece: string;
+  captured?: string;
+  promotion?: string; // lowercase piece letter: q, r, b, n
+  castle?: 'K' | 'Q';
+  enPassant?: boolean;
+}
+
+const FILES = 'abcdefgh';
+const STARTING_FEN = 'rnbqkbnr/pppppppp/8/8/8/8/PPPPPPPP/RNBQKBNR w KQkq - 0 1';
+
+const KNIGHT_STEPS = [[-2, -1], [-2, 1], [-1, -2], [-1, 2], [1, -2], [1, 2], [2, -1], [2, 1]];
+const KING_STEPS = [[-1, -1], [-1, 0], [-1, 1], [0, -1], [0, 1], [1, -1], [1, 0], [1, 1]];
+const BISHOP_DIRECTIONS = [[-1, -1], [-1, 1], [1, -1], [1, 1]];
+const ROOK_DIRECTIONS = [[-1, 0], [1, 0], [0, -1], [0, 1]];
+
+// Squares whose piece leaving or being captured removes a castling right
+const CASTLING_SQUARES: Record<number, string> = { 0: 'q', 4: 'kq', 7: 'k', 56: 'Q', 60: 'KQ', 63: 'K' };
+
+export class ChessRules {
+  static readonly STARTING_FEN = STARTING_FEN;
+
+  static createStartingPosition(): ChessPosition {
+    return this.parseFen(STARTING_FEN);
+  }
+
+  static parseFen(fen: string): ChessPosition {
+    const [placement, turn, castling, enPassant, halfmove, fullmove] = fen.trim().split(/\s+/);
+    const ranks = placement?.split('/') ?? [];
+    if (ranks.length !== 8) {
+      throw new Error(`Invalid FEN: ${fen}`);
+    }
+
+    const board: (string | null)[] = [];
+    for (const rank of ranks) {
+      for (const char of rank) {
+        if (/[1-8]/.test(char)) {
+          board.push(...Array(parseInt(char, 10)).fill(null));
+        } else if (/[pnbrqkPNBRQK]/.test(char)) {
+          board.push(char);
+        } else {
+          throw new Error(`Invalid FEN: ${fen}`);
+        }
+      }
+    }
+    if (board.length !== 64) {
+      throw new Error(`Invalid FEN: ${fen}`);
+    }
+
+    return {
+      board,
+      turn: turn === 'b' ? 'b' : 'w',
+      castling: !castling || castling === '-' ? '' : castling,
+      enPassant: !enPassant || enPassant === '-' ? null : this.parseSquare(enPassant),
+      halfmoveClock: parseInt(halfmove, 10) || 0,
+      fullmoveNumber: parseInt(fullmove, 10) || 1
+    };
+  }
+
+  static toFen(position: ChessPosition): string {
+    const ranks: string[] = [];
+    for (let rank = 0; rank < 8; rank++) {
+      let row = '';
+      let empty = 0;
+      for (let file = 0; file < 8; file++) {
+        const piece = position.board[rank * 8 + file];
+        if (!piece) {
+          empty++;
+          continue;
+        }
+        if (empty > 0) row += empty;
+        row += piece;
+        empty = 0;
+      }
+      if (empty > 0) row += empty;
+      ranks.push(row);
+    }
+
+    return [
+      ranks.join('/'),
+      position.turn,
+      position.castling || '-',
+      position.enPassant !== null ? this.squareName(position.enPassant) : '-',
+      position.halfmoveClock,
+      position.fullmoveNumber
+    ].join(' ');
+  }
+
+  // Position identity for repetition: placement, side to move, castling and a usable en passant square
+  static positionKey(position: ChessPosition): string {
+    const canCaptureEnPassant = position.enPassant !== null &&
+      this.generateLegalMoves(position).some(move => move.enPassant);
+    const key = { ...position, enPassant: canCaptureEnPassant ? position.enPassant : null };
+    return this.toFen(key).split(' ').slice(0, 4).join(' ');
+  }
+
+  static generateLegalMoves(position: ChessPosition): ChessMove[] {
+    return this.generatePseudoLegalMoves(position).filter(move => {
+      const next = this.applyMove(position, move);
+      return !this.isInCheck(next, position.turn);
+    });
+  }
+
+  static applyMove(position: ChessPosition, move: ChessMove): ChessPosition {
+    const board = [...position.board];
+    const color = position.turn;
+
+    board[move.from] = null;
+    board[move.to] = move.promotion ? this.pieceOf(move.promotion, color) : move.piece;
+
+    if (move.enPassant) {
+      const capturedSquare = move.to + (color === 'w' ? 8 : -8);
+      board[capturedSquare] = null;
+    }
+
+    if (move.castle) {
+      const rookFrom = move.castle === 'K' ? move.from + 3 : move.from - 4;
+      const rookTo = move.castle === 'K' ? move.from + 1 : move.from - 1;
+      board[rookTo] = board[rookFrom];
+      board[rookFrom] = null;
+    }
+
+    let castling = position.castling;
+    for (const square of [move.from, move.to]) {
+      const lost = CASTLING_SQUARES[square];
+      if (lost) {
+        castling = castling.split('').filter(right => !lost.includes(right)).join('');
+      }
+    }
+
+    const isPawnMove = move.piece.toLowerCase() === 'p';
+    const isDoublePush = isPawnMove && Math.abs(move.to - move.from) === 16;
+
+    return {
+      board,
+      turn: color === 'w' ? 'b' : 'w',
+      castling,
+      enPassant: isDoublePush ? (move.from + move.to) / 2 : null,
+      halfmoveClock: isPawnMove || move.captured ? 0 : position.halfmoveClock + 1,
+      fullmoveNumber: color === 'b' ? position.fullmoveNumber + 1 : position.fullmoveNumber
+    };
+  }
+
+  static isInCheck(position: ChessPosition, color: ChessColor): boolean {
+    const king = position.board.findIndex(piece => piece === this.pieceOf('k', color));
+    return king !== -1 && this.isSquareAttacked(position, king, color === 'w' ? 'b' : 'w');
+  }
+
+  // Neither side can possibly deliver mate: bare kings or a single minor piece
+  static isInsufficientMaterial(position: ChessPosition): boolean {
+    const pieces = position.board.filter((piece): piece is string => !!piece && piece.toLowerCase() !== 'k');
+    if (pieces.length === 0) return true;
+    if (pieces.length === 1) return ['n', 'b'].includes(pieces[0].toLowerCase());
+
+    // Only bishops, all on the same square colour
+    if (pieces.every(piece => piece.toLowerCase() === 'b')) {
+      const squareColors = new Set(
+        position.board
+          .map((piece, square) => (piece && piece.toLowerCase() === 'b' ? (Math.floor(square / 8) + square % 8) % 2 : -1))
+          .filter(color => color !== -1)
+      );
+      return squareColors.size === 1;
+    }
+
+    return false;
+  }
+
+  // Accepts UCI ("e2e4", "e7e8q") or SAN ("Nf3", "exd5", "O-O", "e8=Q+")
+  static parseMove(position: ChessPosition, input: string): ChessMove | null {
+    const text = input.trim();
+    const legalMoves = this.generateLegalMoves(position);
+
+    const uci = text.match(/^([a-h][1-8])([a-h][1-8])([qrbn])?$/i);
+    if (uci) {
+      const from = this.parseSquare(uci[1].toLowerCase());
+      const to = this.parseSquare(uci[2].toLowerCase());
+      const promotion = uci[3]?.toLowerCase();
+      const match = legalMoves.find(move => move.from === from && move.to === to && move.promotion === promotion);
+      if (match) return match;
+    }
+
+    const normalized = this.normalizeSan(text);
+    return legalMoves.find(move => this.normalizeSan(this.toSan(position, move, legalMoves)) === normalized) || null;
+  }
+
+  static toUci(move: ChessMove): string {
+    return this.squareName(move.from) + this.squareName(move.to) + (move.promotion || '');
+  }
+
+  static toSan(position: ChessPosition, move: ChessMove, legalMoves = this.generateLegalMoves(position)): string {
+    let san: string;
+
+    if (move.castle) {
+      san = move.castle === 'K' ? 'O-O' : 'O-O-O';
+    } else {
+      const type = move.piece.toUpperCase();
+      const isCapture = !!move.captured;
+      const target = this.squareName(move.to);
+
+      if (type === 'P') {
+        san = (isCapture ? FILES[move.from % 8] + 'x' : '') + target;
+        if (move.promotion) san += '=' + move.promotion.toUpperCase();
+      } else {
+        const rivals = legalMoves.filter(other =>
+          other.piece === move.piece && other.to === move.to && other.from !== move.from
+        );
+        let disambiguation = '';
+        if (rivals.length > 0) {
+          const sameFile = rivals.some(other => other.from % 8 === move.from % 8);
+          const sameRank = rivals.some(other => Math.floor(other.from / 8) === Math.floor(move.from / 8));
+          const name = this.squareName(move.from);
+          if (!sameFile) disambiguation = name[0];
+          else if (!sameRank) disambiguation = name[1];
+          else disambiguation = name;
+        }
+        san = type + disambiguation + (isCapture ? 'x' : '') + target;
+      }
+    }
+
+    const next = this.applyMove(position, move);
+    if (this.isInCheck(next, next.turn)) {
+      san += this.generateLegalMoves(next).length === 0 ? '#' : '+';
+    }
+    return san;
+  }
+
+  static squareName(square: number): string {
+    return FILES[square % 8] + (8 - Math.floor(square / 8));
+  }
+
+  static parseSquare(name: string): number {
+    const file = FILES.indexOf(name[0]);
+    const rank = parseInt(name[1], 10);
+    if (file === -1 || !(rank >= 1 && rank <= 8)) {
+      throw new Error(`Invalid square: ${name}`);
+    }
+    return (8 - rank) * 8 + file;
+  }
+
+  static colorOf(piece: string): ChessColor {
+    return piece === piece.toUpperCase() ? 'w' : 'b';
+  }
+
+  private static normalizeSan(san: string): string {
+    return san.replace(/0/g, 'O').replace(/[+#!?=]|e\.p\./g, '').trim();
+  }
+
+  private static pieceOf(type: string, color: ChessColor): string {
+    return color === 'w' ? type.toUpperCase() : type.toLowerCase();
+  }
+
+  private static generatePseudoLegalMoves(position: ChessPosition): ChessMove[] {
+    const moves: ChessMove[] = [];
+    const color = position.turn;
+
+    position.board.forEach((piece, from) => {
+      if (!piece || this.colorOf(piece) !== color) return;
+
+      switch (piece.toLowerCase()) {
+        case 'p':
+          this.addPawnMoves(position, from, moves);
+          break;
+        case 'n':
+          this.addStepMoves(position, from, KNIGHT_STEPS, moves);
+          break;
+        case 'b':
+          this.addSlidingMoves(position, from, BISHOP_DIRECTIONS, moves);
+          break;
+        case 'r':
+          this.addSlidingMoves(position, from, ROOK_DIRECTIONS, moves);
+          break;
+        case 'q':
+          this.addSlidingMoves(position, from, [...BISHOP_DIRECTIONS, ...ROOK_DIRECTIONS], moves);
+          break;
+        case 'k':
+          this.addStepMoves(position, from, KING_STEPS, moves);
+          this.addCastlingMoves(position, from, moves);
+          break;
+      }
+    });
+
+    return moves;
+  }
+
+  private static addPawnMoves(position: ChessPosition, from: number, moves: ChessMove[]): void {
+    const { board, turn } = position;
+    const piece = board[from]!;
+    const direction = turn === 'w' ? -1 : 1;
+    const startRank = turn === 'w' ? 6 : 1;
+    const promotionRank = turn === 'w' ? 0 : 7;
+    const rank = Math.floor(from / 8);
+    const file = from % 8;
+
+    const push = (to: number, extra: Partial<ChessMove> = {}) => {
+      if (Math.floor(to / 8) === promotionRank) {
+        for (const promotion of ['q', 'r', 'b', 'n']) {
+          moves.push({ from, to, piece, ...extra, promotion });
+        }
+      } else {
+        moves.push({ from, to, piece, ...extra });
+      }
+    };
+
+    const oneStep = from + direction * 8;
+    if (board[oneStep] === null) {
+      push(oneStep);
+      const twoStep = from + direction * 16;
+      if (rank === startRank && board[twoStep] === null) {
+        push(twoStep);
+      }
+    }
+
+    for (const fileDelta of [-1, 1]) {
+      const targetFile = file + fileDelta;
+      if (targetFile < 0 || targetFile > 7) continue;
+
+      const to = (rank + direction) * 8 + targetFile;
+      const target = board[to];
+      if (target && this.colorOf(target) !== turn) {
+        push(to, { captured: target });
+      } else if (to === position.enPassant) {
+        push(to, { captured: this.pieceOf('p', turn === 'w' ? 'b' : 'w'), enPassant: true });
+      }
+    }
+  }
+
+  private static addStepMoves(position: ChessPosition, from: number, steps: number[][], moves: ChessMove[]): void {
+    const piece = position.board[from]!;
+    const rank = Math.floor(from / 8);
+    const file = from % 8;
+
+    for (const [dRank, dFile] of steps) {
+      const r = rank + dRank;
+      const f = file + dFile;
+      if (r < 0 || r > 7 || f < 0 || f > 7) continue;
+
+      const to = r * 8 + f;
+      const target = position.board[to];
+      if (!target) {
+        moves.push({ from, to, piece });
+      } else if (this.colorOf(target) !== position.turn) {
+        moves.push({ from, to, piece, captured: target });
+      }
+    }
+  }
+
+  private static addSlidingMoves(position: ChessPosition, from: number, directions: number[][], moves: ChessMove[]): void {
+    const piece = position.board[from]!;
+
+    for (const [dRank, dFile] of directions) {
+      let r = Math.floor(from / 8) + dRank;
+      let f = from % 8 + dFile;
+      while (r >= 0 && r <= 7 && f >= 0 && f <= 7) {
+        const to = r * 8 + f;
+        const target = position.board[to];
+        if (!target) {
+          moves.push({ from, to, piece });
+        } else {
+          if (this.colorOf(target) !== position.turn) {
+            moves.push({ from, to, piece, captured: target });
+          }
+          break;
+        }
+        r += dRank;
+        f += dFile;
+      }
+    }
+  }
+
+  private static addCastlingMoves(position: ChessPosition, from: number, moves: ChessMove[]): void {
+    const { board, turn, castling } = position;
+    const homeSquare = turn === 'w' ? 60 : 4;
+    if (from !== homeSquare) return;
+
+    const enemy = turn === 'w' ? 'b' : 'w';
+    if (this.isSquareAttacked(position, from, enemy)) return;
+
+    const piece = board[from]!;
+    const kingSide = turn === 'w' ? 'K' : 'k';
+    const queenSide = turn === 'w' ? 'Q' : 'q';
+
+    if (castling.includes(kingSide) &&
+        board[from + 3] === this.pieceOf('r', turn) &&
+        board[from + 1] === null && board[from + 2] === null &&
+        !this.isSquareAttacked(position, from + 1, enemy) &&
+        !this.isSquareAttacked(position, from + 2, enemy)) {
+      moves.push({ from, to: from + 2, piece, castle: 'K' });
+    }
+
+    if (castling.includes(queenSide) &&
+        board[from - 4] === this.pieceOf('r', turn) &&
+        board[from - 1] === null && board[from - 2] === null && board[from - 3] === null &&
+        !this.isSquareAttacked(position, from - 1, enemy) &&
+        !this.isSquareAttacked(position, from - 2, enemy)) {
+      moves.push({ from, to: from - 2, piece, castle: 'Q' });
+    }
+  }
+
+  private static isSquareAttacked(position: ChessPosition, square: number, byColor: ChessColor): boolean {
+    const { board } = position;
+    const rank = Math.floor(square / 8);
+    const file = square % 8;
+    const at = (r: number, f: number) => (r >= 0 && r <= 7 && f >= 0 && f <= 7 ? board[r * 8 + f] : null);
+
+    // Pawns attack towards the opponent, so look back along their direction of travel
+    const pawnRank = byColor === 'w' ? rank + 1 : rank - 1;
+    const enemyPawn = this.pieceOf('p', byColor);
+    if (at(pawnRank, file - 1) === enemyPawn || at(pawnRank, file + 1) === enemyPawn) return true;
+
+    const enemyKnight = this.pieceOf('n', byColor);
+    if (KNIGHT_STEPS.some(([dr, df]) => at(rank + dr, file + df) === enemyKnight)) return true;
+
+    const enemyKing = this.pieceOf('k', byColor);
+    if (KING_STEPS.some(([dr, df]) => at(rank + dr, file + df) === enemyKing)) return true;
+
+    const lineAttackers = (directions: number[][], types: string[]) => directions.some(([dr, df]) => {
+      let r = rank + dr;
+      let f = file + df;
+      while (r >= 0 && r <= 7 && f >= 0 && f <= 7) {
+        const piece = board[r * 8 + f];
+        if (piece) {
+          return this.colorOf(piece) === byColor && types.includes(piece.toLowerCase());
+        }
+        r += dr;
+        f += df;
+      }
+      return false;
+    });
+
+    return lineAttackers(BISHOP_DIRECTIONS, ['b', 'q']) || lineAttackers(ROOK_DIRECTIONS, ['r', 'q']);
+  }
+}
@@ -0,0 +1,49 @@
+import type { GameDefinition } from '../GameRegistry';
+import { ChessGame } from './ChessGame';
+import { ChessBot } from './ChessBot';
+import { ChessRules } from './ChessRules';
+
+export { ChessGame, ChessRules };
+
+export const gameDefinition: GameDefinition = {
+  id: 'chess',
+  name: 'Chess',
+  description: 'Ultimate strategy game with different piece types',
+  minPlayers: 2,
+  maxPlayers: 2,
+  estimatedDuration: '30 minutes',
+  difficultyLevel: 'hard',
+  icon: '♔',
+  rules: 'The most popular strategy game. Checkmate your opponent\'s king using various pieces with unique movement patterns.',
+  tags: ['strategy', 'classic', 'complex'],
+  configSchema: {
+    fen: {
+      type: 'string',
+      default: ChessRules.STARTING_FEN,
+      description: 'Starting position in FEN notation'
+    },
+    clockTime: {
+      type: 'number',
+      default: 0,
+      description: 'Seconds on each player\'s clock; 0 leaves the clock to the time_control setting',
+      min: 0,
+      max: 7200
+    },
+    clockIncrement: {
+      type: 'number',
+      default: 0,
+      description: 'Seconds added to a clock after each move (Fischer increment)',
+      min: 0,
+      max: 60
+    },
+    clockDelay: {
+      type: 'number',
+      default: 0,
+      description: 'Seconds of each move that do not count against the clock (Bronstein delay)',
+      min: 0,
+      max: 60
+    }
+  },
+  gameClass: ChessGame,
+  botStrategy: new ChessBot()
+};
@@ -0,0 +1,54 @@
+import { BaseGame } from '../BaseGame';
+import { BotDifficulty, BotStrategy } from '../BotPlayer';
+import { BotSearch } from '../BotSearch';
+
+const SEARCH_DEPTH: Record<BotDifficulty, number> = {
+  easy: 2,
+  medium: 4,
+  hard: 5
+};
+
+// Alpha-beta with a window heuristic: every open line counts, more so the fuller it is
+export class Connect4Bot implements BotStrategy {
+  chooseMove(game: BaseGame, botId: string, difficulty: BotDifficulty): any {
+    return BotSearch.bestMove(game, botId, SEARCH_DEPTH[difficulty], (position, playerId) => this.evaluate(position, playerId));
+  }
+
+  private evaluate(game: BaseGame, botId: string): number {
+    const { board, colors, rows, columns, connectLength } = game.getGameState().gameData;
+    const mine = colors[botId];
+    let score = 0;
+
+    // Pieces in the centre column take part in the most lines
+    const center = Math.floor(columns / 2);
+    for (let row = 0; row < rows; row++) {
+      if (board[row][center] === mine) score += 3;
+      else if (board[row][center] !== null) score -= 3;
+    }
+
+    const directions = [[0, 1], [1, 0], [1, 1], [1, -1]];
+    for (let row = 0; row < rows; row++) {
+      for (let col = 0; col < columns; col++) {
+        for (const [dRow, dCol] of directions) {
+          const endRow = row + dRow * (connectLength - 1);
+          const endCol = col + dCol * (connectLength - 1);
+          if (endRow < 0 || endRow >= rows || endCol < 0 || endCol >= columns) continue;
+
+          let own = 0;
+          let theirs = 0;
+          for (let i = 0; i < connectLength; i++) {
+            const cell = board[row + dRow * i][col + dCol * i];
+            if (cell === mine) own++;
+            else if (cell !== null) theirs++;
+          }
+
+          // A window holding both colours can never become a line
+          if (own > 0 && theirs === 0) score += own * own;
+          if (theirs > 0 && own === 0) score -= theirs * theirs;
+        }
+      }
+    }
+
+    return score;
+  }
+}
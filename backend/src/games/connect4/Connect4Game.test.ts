@@ -0,0 +1,46 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { BaseGame, Player } from '../BaseGame';
+import { Connect4Game } from './Connect4Game';
+
+function teamPlayers(...sides: string[][]): Player[] {
+  return sides.flatMap((ids, team) => ids.map(id => ({ id, username: id, elo: 1000, isConnected: true, team })));
+}
+
+test('team games alternate sides and rotate through each side', () => {
+  const players = BaseGame.seatTeams(teamPlayers(['a', 'b'], ['c', 'd']));
+  assert.deepEqual(players.map(p => p.id), ['a', 'c', 'b', 'd']);
+
+  const game = new Connect4Game('c4', 'connect4teams', players);
+  game.start();
+  assert.deepEqual(game.getGameState().gameData.colors, { a: 'red', b: 'red', c: 'yellow', d: 'yellow' });
+
+  assert.equal(game.makeMove('b', { column: 0 }), false);
+  assert.equal(game.makeMove('a', { column: 0 }), true);
+  assert.equal(game.getGameState().currentPlayerIndex, 1);
+});
+
+test('the whole side shares a connect-four win', () => {
+  const game = new Connect4Game('c4', 'connect4teams', BaseGame.seatTeams(teamPlayers(['a', 'b'], ['c', 'd'])));
+  game.start();
+  for (const [playerId, column] of [['a', 0], ['c', 1], ['b', 0], ['d', 1], ['a', 0], ['c', 1], ['b', 0]] as const) {
+    assert.equal(game.makeMove(playerId, { column }), true);
+  }
+
+  const { status, result } = game.getGameState();
+  assert.equal(status, 'finished');
+  assert.equal(result!.winner!.id, 'b');
+  assert.equal(result!.winningTeam, 0);
+  assert.deepEqual(Object.fromEntries(result!.scores), { a: 1, c: 0, b: 1, d: 0 });
+  assert.deepEqual(result!.placements, { a: 1, c: 2, b: 1, d: 2 });
+});
+
+test('a forfeit loses the game for the whole side', () => {
+  const game = new Connect4Game('c4', 'connect4teams', BaseGame.seatTeams(teamPlayers(['a', 'b'], ['c', 'd'])));
+  game.start();
+  game.playerForfeit('b');
+
+  const { result } = game.getGameState();
+  assert.equal(result!.winningTeam, 1);
+  assert.deepEqual(result!.placements, { a: 2, c: 1, b: 2, d: 1 });
+});
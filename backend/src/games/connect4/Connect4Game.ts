@@ -0,0 +1,203 @@
+import { BaseGame, GameResult } from '../BaseGame';
+
+type Connect4Color = 'red' | 'yellow';
+
+interface Cell {
+  row: number;
+  col: number;
+}
+
+interface Connect4State {
+  board: (Connect4Color | null)[][]; // row 0 is the top of the board
+  colors: Record<string, Connect4Color>; // playerId -> color
+  rows: number;
+  columns: number;
+  connectLength: number;
+  lastMove: Cell | null;
+  winningCells: Cell[] | null;
+}
+
+interface Connect4Move {
+  column: number;
+}
+
+const DEFAULT_ROWS = 6;
+const DEFAULT_COLUMNS = 7;
+const DEFAULT_CONNECT_LENGTH = 4;
+const MIN_SIZE = 4;
+const MAX_SIZE = 12;
+
+export class Connect4Game extends BaseGame {
+  // Accepts flat keys or the board_size / win_condition rows from game_configurations
+  createInitialState(config?: any): Connect4State {
+    const rows = this.readSize(config?.rows ?? config?.board_size?.rows, DEFAULT_ROWS);
+    const columns = this.readSize(config?.columns ?? config?.board_size?.cols, DEFAULT_COLUMNS);
+
+    let connectLength = parseInt(config?.connectLength ?? config?.win_condition?.count, 10);
+    if (!(connectLength >= 3 && connectLength <= Math.max(rows, columns))) {
+      connectLength = Math.min(DEFAULT_CONNECT_LENGTH, Math.max(rows, columns));
+    }
+
+    // In team games every member of the first player's side plays red
+    return {
+      board: Array.from({ length: rows }, () => Array(columns).fill(null)),
+      colors: Object.fromEntries(
+        this.players.map(p => [p.id, this.onSameSide(p, this.players[0]) ? 'red' : 'yellow'])
+      ),
+      rows,
+      columns,
+      connectLength,
+      lastMove: null,
+      winningCells: null
+    };
+  }
+
+  isValidMove(playerId: string, moveData: Connect4Move): boolean {
+    const column = moveData?.column;
+
+    // Check if it's the player's turn
+    if (this.getCurrentPlayer().id !== playerId) return false;
+
+    // Check if column is valid
+    if (!Number.isInteger(column) || column < 0 || column >= this.gameData.columns) return false;
+
+    // Check if the column still has room
+    return this.gameData.board[0][column] === null;
+  }
+
+  getLegalMoves(playerId: string): Connect4Move[] {
+    if (this.status !== 'playing' || this.getCurrentPlayer().id !== playerId) return [];
+
+    const moves: Connect4Move[] = [];
+    for (let column = 0; column < this.gameData.columns; column++) {
+      if (this.gameData.board[0][column] === null) moves.push({ column });
+    }
+    return moves;
+  }
+
+  applyMove(playerId: string, moveData: Connect4Move): boolean {
+    const { board, colors } = this.gameData;
+    const { column } = moveData;
+    const color = colors[playerId];
+
+    if (!color) return false;
+
+    // Gravity: the piece falls to the lowest empty row
+    for (let row = this.gameData.rows - 1; row >= 0; row--) {
+      if (board[row][column] === null) {
+        board[row][column] = color;
+        this.gameData.lastMove = { row, col: column };
+        return true;
+      }
+    }
+
+    return false;
+  }
+
+  checkGameEnd(): GameResult | null {
+    const { board, lastMove } = this.gameData;
+    if (!lastMove) return null;
+
+    const winningCells = this.findLine(lastMove);
+    if (winningCells) {
+      this.gameData.winningCells = winningCells;
+      // The turn has not passed yet, so the current player is the one who completed the line
+      const winner = this.getCurrentPlayer();
+
+      return {
+        isFinished: true,
+        result: 'win',
+        winner,
+        scores: this.getScores(),
+        duration: Math.floor((Date.now() - this.startTime.getTime()) / 1000),
+        totalMoves: this.moves.length,
+        endReason: `${winner.username} connected ${this.gameData.connectLength}!`
+      };
+    }
+
+    // Check for draw
+    if (board[0].every((cell: Connect4Color | null) => cell !== null)) {
+      return {
+        isFinished: true,
+        result: 'draw',
+        winner: null,
+        scores: this.getScores(),
+        duration: Math.floor((Date.now() - this.startTime.getTime()) / 1000),
+        totalMoves: this.moves.length,
+        endReason: 'Board is full - game ended in a draw!'
+      };
+    }
+
+    return null; // Game continues
+  }
+
+  getDisplayState(): any {
+    return {
+      board: this.gameData.board,
+      colors: this.gameData.colors,
+      rows: this.gameData.rows,
+      columns: this.gameData.columns,
+      connectLength: this.gameData.connectLength,
+      lastMove: this.gameData.lastMove,
+      winningCells: this.gameData.winningCells,
+      currentPlayer: this.getCurrentPlayer().id
+    };
+  }
+
+  getScores(): Map<string, number> {
+    const scores = new Map<string, number>();
+
+    if (this.result) {
+      if (this.result.result === 'draw') {
+        this.players.forEach(player => {
+          scores.set(player.id, 0.5);
+        });
+      } else {
+        // Win, forfeit, timeout or disconnect; the winner's teammates share the win
+        const winner = this.result.winner;
+        this.players.forEach(player => {
+          scores.set(player.id, winner && this.onSameSide(player, winner) ? 1 : 0);
+        });
+      }
+    } else {
+      // Game in progress
+      this.players.forEach(player => {
+        scores.set(player.id, 0);
+      });
+    }
+
+    return scores;
+  }
+
+  // Look for a line through the given cell in all four directions
+  private findLine(origin: Cell): Cell[] | null {
+    const { board, connectLength, rows, columns } = this.gameData;
+    const color = board[origin.row][origin.col];
+    const directions = [[0, 1], [1, 0], [1, 1], [1, -1]]; // horizontal, vertical, both diagonals
+
+    for (const [dRow, dCol] of directions) {
+      const line: Cell[] = [origin];
+
+      for (const sign of [1, -1]) {
+        let row = origin.row + dRow * sign;
+        let col = origin.col + dCol * sign;
+        while (row >= 0 && row < rows && col >= 0 && col < columns && board[row][col] === color) {
+          line.push({ row, col });
+          row += dRow * sign;
+          col += dCol * sign;
+        }
+      }
+
+      if (line.length >= connectLength) {
+        return line.sort((a, b) => a.row - b.row || a.col - b.col);
+      }
+    }
+
+    return null;
+  }
+
+  private readSize(value: any, fallback: number): number {
+    const size = parseInt(value, 10);
+    return size >= MIN_SIZE && size <= MAX_SIZE ? size : fallback;
+  }
+}
@@ -0,0 +1,25 @@
+import type { GameDefinition } from '../GameRegistry';
+import { Connect4Game } from './Connect4Game';
+import { Connect4Bot } from './Connect4Bot';
+
+export { Connect4Game };
+
+export const gameDefinition: GameDefinition = {
+  id: 'connect4',
+  name: 'Connect Four',
+  description: 'Drop pieces to connect four in a row',
+  minPlayers: 2,
+  maxPlayers: 2,
+  estimatedDuration: '8 minutes',
+  difficultyLevel: 'easy',
+  icon: '🔵',
+  rules: 'Take turns dropping colored pieces into columns. First to get four pieces in a row (horizontally, vertically, or diagonally) wins!',
+  tags: ['quick', 'family', 'simple'],
+  configSchema: {
+    rows: { type: 'number', default: 6, min: 4, max: 12, description: 'Number of rows on the board' },
+    columns: { type: 'number', default: 7, min: 4, max: 12, description: 'Number of columns on the board' },
+    connectLength: { type: 'number', default: 4, min: 3, max: 12, description: 'Pieces in a row needed to win' }
+  },
+  gameClass: Connect4Game,
+  botStrategy: new Connect4Bot()
+};
@@ -0,0 +1,19 @@
+import type { GameDefinition } from '../GameRegistry';
+import { Connect4Game, gameDefinition as connect4 } from '../connect4';
+
+// Two against two on one board; teammates share a color and take alternate turns for their side
+export const gameDefinition: GameDefinition = {
+  id: 'connect4teams',
+  name: 'Team Connect Four',
+  description: 'Connect Four for two teams of two',
+  minPlayers: 4,
+  maxPlayers: 4,
+  teamSize: 2,
+  estimatedDuration: '10 minutes',
+  difficultyLevel: 'easy',
+  icon: '🟡',
+  rules: 'Two teams of two share a color each. Sides alternate turns, and each side rotates through its players. First team to get four pieces in a row wins!',
+  tags: ['team', 'family', 'simple'],
+  configSchema: connect4.configSchema,
+  gameClass: Connect4Game
+};
@@ -0,0 +1,76 @@
+import { BaseGame } from '../BaseGame';
+import { BotDifficulty, BotStrategy } from '../BotPlayer';
+
+type Cell = string | null;
+
+const LINES = [
+  [0, 1, 2], [3, 4, 5], [6, 7, 8], // rows
+  [0, 3, 6], [1, 4, 7], [2, 5, 8], // columns
+  [0, 4, 8], [2, 4, 6] // diagonals
+];
+
+// Plies searched; hard covers the whole game tree, so it never loses
+const SEARCH_DEPTH: Record<BotDifficulty, number> = {
+  easy: 1,
+  medium: 2,
+  hard: 9
+};
+
+// Plain minimax: the tree is small enough to search exhaustively
+export class TicTacToeBot implements BotStrategy {
+  private solved = new Map<string, number>(); // exact scores of fully searched positions
+
+  chooseMove(game: BaseGame, botId: string, difficulty: BotDifficulty): any {
+    const { board, symbols } = game.getGameState().gameData as { board: Cell[]; symbols: Record<string, string> };
+    const me = symbols[botId];
+    const opponent = me === 'X' ? 'O' : 'X';
+
+    let bestScore = -Infinity;
+    let bestMoves: { position: number }[] = [];
+
+    for (const move of game.getLegalMoves(botId)) {
+      const next = [...board];
+      next[move.position] = me;
+
+      const score = -this.minimax(next, opponent, me, SEARCH_DEPTH[difficulty] - 1);
+      if (score > bestScore) {
+        bestScore = score;
+        bestMoves = [move];
+      } else if (score === bestScore) {
+        bestMoves.push(move);
+      }
+    }
+
+    return bestMoves[Math.floor(Math.random() * bestMoves.length)];
+  }
+
+  // Score for the side to move; faster wins score higher
+  private minimax(board: Cell[], toMove: string, other: string, depth: number): number {
+    const empty = board.filter(cell => cell === null).length;
+    const winner = this.winner(board);
+    if (winner) return winner === toMove ? 10 + empty : -(10 + empty);
+    if (empty === 0 || depth <= 0) return 0;
+
+    const exhaustive = depth >= empty;
+    const key = board.map(cell => cell ?? '-').join('') + toMove;
+    if (exhaustive && this.solved.has(key)) return this.solved.get(key)!;
+
+    let best = -Infinity;
+    board.forEach((cell, position) => {
+      if (cell !== null) return;
+      const next = [...board];
+      next[position] = toMove;
+      best = Math.max(best, -this.minimax(next, other, toMove, depth - 1));
+    });
+
+    if (exhaustive) this.solved.set(key, best);
+    return best;
+  }
+
+  private winner(board: Cell[]): Cell {
+    for (const [a, b, c] of LINES) {
+      if (board[a] && board[a] === board[b] && board[a] === board[c]) return board[a];
+    }
+    return null;
+  }
+}
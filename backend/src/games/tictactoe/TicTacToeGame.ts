@@ -2,7 +2,7 @@ import { BaseGame, Player, GameResult } from '../BaseGame';
 
 interface TicTacToeState {
   board: (string | null)[];
-  symbols: Map<string, string>; // playerId -> symbol (X or O)
+  symbols: Record<string, string>; // playerId -> symbol (X or O)
 }
 
 interface TicTacToeMove {
@@ -11,17 +11,17 @@ interface TicTacToeMove {
 
 export class TicTacToeGame extends BaseGame {
   createInitialState(config?: any): TicTacToeState {
-    const symbols = new Map<string, string>();
-    symbols.set(this.players[0].id, 'X');
-    symbols.set(this.players[1].id, 'O');
-
     return {
       board: Array(9).fill(null),
-      symbols
+      symbols: {
+        [this.players[0].id]: 'X',
+        [this.players[1].id]: 'O'
+      }
     };
   }
 
   isValidMove(playerId: string, moveData: TicTacToeMove): boolean {
+    if (!moveData || !Number.isInteger(moveData.position)) return false;
     const { position } = moveData;
     
     // Check if it's the player's turn
@@ -34,9 +34,19 @@ export class TicTacToeGame extends BaseGame {
     return this.gameData.board[position] === null;
   }
 
+  getLegalMoves(playerId: string): TicTacToeMove[] {
+    if (this.status !== 'playing' || this.getCurrentPlayer().id !== playerId) return [];
+
+    const moves: TicTacToeMove[] = [];
+    this.gameData.board.forEach((cell: string | null, position: number) => {
+      if (cell === null) moves.push({ position });
+    });
+    return moves;
+  }
+
   applyMove(playerId: string, moveData: TicTacToeMove): boolean {
     const { position } = moveData;
-    const symbol = this.gameData.symbols.get(playerId);
+    const symbol = this.gameData.symbols[playerId];
     
     if (!symbol) return false;
     
@@ -60,7 +70,7 @@ export class TicTacToeGame extends BaseGame {
         // Find winner by symbol
         const winningSymbol = board[a];
         const winner = this.players.find(p => 
-          this.gameData.symbols.get(p.id) === winningSymbol
+          this.gameData.symbols[p.id] === winningSymbol
         );
         
         return {
@@ -94,7 +104,7 @@ export class TicTacToeGame extends BaseGame {
   getDisplayState(): any {
     return {
       board: this.gameData.board,
-      symbols: Object.fromEntries(this.gameData.symbols),
+      symbols: this.gameData.symbols,
       currentPlayer: this.getCurrentPlayer().id
     };
   }
@@ -139,7 +149,7 @@ export class TicTacToeGame extends BaseGame {
       playerPerformance: this.players.map(player => ({
         playerId: player.id,
         username: player.username,
-        symbol: this.gameData.symbols.get(player.id),
+        symbol: this.gameData.symbols[player.id],
         movesPlayed: this.moves.filter(m => m.playerId === player.id).length,
         averageMoveTime: this.getAverageMoveTime(player.id)
       }))
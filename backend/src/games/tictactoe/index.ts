@@ -1,2 +1,21 @@
-export { TicTacToeGame } from './TicTacToeGame';
-export { TicTacToeValidator } from './TicTacToeValidator';
+import type { GameDefinition } from '../GameRegistry';
+import { TicTacToeGame } from './TicTacToeGame';
+import { TicTacToeBot } from './TicTacToeBot';
+
+export { TicTacToeGame };
+
+export const gameDefinition: GameDefinition = {
+  id: 'tictactoe',
+  name: 'Tic Tac Toe',
+  description: 'Classic 3x3 grid game where you try to get three in a row',
+  minPlayers: 2,
+  maxPlayers: 2,
+  estimatedDuration: '3 minutes',
+  difficultyLevel: 'easy',
+  icon: '⭕',
+  rules: 'Take turns placing X or O on a 3x3 grid. First to get three in a row wins!',
+  tags: ['classic', 'quick', 'simple'],
+  configSchema: {},
+  gameClass: TicTacToeGame,
+  botStrategy: new TicTacToeBot()
+};
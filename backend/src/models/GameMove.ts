@@ -0,0 +1,42 @@
+import { pool } from '../config/database';
+
+export interface GameMove {
+  id: string;
+  session_id: string;
+  user_id: string;
+  move_number: number;
+  move_data: any;
+  created_at: Date;
+}
+
+export class GameMoveModel {
+  static async create(
+    sessionId: string,
+    userId: string,
+    moveNumber: number,
+    moveData: any,
+    createdAt: Date
+  ): Promise<void> {
+    const query = `
+      INSERT INTO game_moves (session_id, user_id, move_number, move_data, created_at)
+      VALUES ($1, $2, $3, $4, $5)
+    `;
+    await pool.query(query, [sessionId, userId, moveNumber, JSON.stringify(moveData), createdAt]);
+  }
+
+  static async findBySession(sessionId: string): Promise<GameMove[]> {
+    const query = `
+      SELECT * FROM game_moves
+      WHERE session_id = $1
+      ORDER BY move_number
+    `;
+    const result = await pool.query(query, [sessionId]);
+    return result.rows;
+  }
+
+  // Remove a move and everything after it, e.g. when a takeback rolls them back
+  static async deleteFrom(sessionId: string, moveNumber: number): Promise<void> {
+    const query = 'DELETE FROM game_moves WHERE session_id = $1 AND move_number >= $2';
+    await pool.query(query, [sessionId, moveNumber]);
+  }
+}
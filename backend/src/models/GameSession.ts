@@ -1,12 +1,16 @@
-import { pool } from '../config/database';
+import { pool, Queryable } from '../config/database';
 import { v4 as uuidv4 } from 'uuid';
 
 export interface GameSession {
   id: string;
   room_code: string;
   game_type: string;
-  status: 'waiting' | 'playing' | 'finished';
+  status: 'waiting' | 'playing' | 'finished' | 'cancelled';
+  match_type: 'casual' | 'ranked';
   max_players: number;
+  average_elo?: number;
+  config: Record<string, any>;
+  created_by: string;
   created_at: Date;
   started_at?: Date;
   finished_at?: Date;
@@ -27,23 +31,82 @@ export class GameSessionModel {
     return result.rows[0];
   }
 
+  // Matchmaking reserves the row inside its queue transaction, before the ready check has run
+  static async createQueued(
+    client: Queryable,
+    sessionId: string,
+    roomCode: string,
+    gameType: string,
+    matchType: 'casual' | 'ranked',
+    maxPlayers: number,
+    createdBy: string
+  ): Promise<GameSession> {
+    const query = `
+      INSERT INTO game_sessions (id, room_code, game_type, match_type, max_players, created_by, status)
+      VALUES ($1, $2, $3, $4, $5, $6, 'waiting')
+      RETURNING *
+    `;
+
+    const result = await client.query(query, [sessionId, roomCode, gameType, matchType, maxPlayers, createdBy]);
+    return result.rows[0];
+  }
+
+  // Row for a game that is starting; the id is the live session id so moves can reference it.
+  // A row already reserved by matchmaking is switched to playing instead.
+  static async createForMatch(
+    sessionId: string,
+    roomCode: string,
+    gameType: string,
+    matchType: 'casual' | 'ranked',
+    maxPlayers: number,
+    createdBy: string,
+    config: Record<string, any>,
+    averageElo: number
+  ): Promise<GameSession> {
+    const query = `
+      INSERT INTO game_sessions (id, room_code, game_type, match_type, max_players, created_by, config, average_elo, status, started_at)
+      VALUES ($1, $2, $3, $4, $5, $6, $7, $8, 'playing', NOW())
+      ON CONFLICT (id) DO UPDATE
+        SET status = 'playing', started_at = NOW(), config = EXCLUDED.config, average_elo = EXCLUDED.average_elo
+      RETURNING *
+    `;
+
+    const result = await pool.query(query, [
+      sessionId, roomCode, gameType, matchType, maxPlayers, createdBy, JSON.stringify(config), averageElo
+    ]);
+    return result.rows[0];
+  }
+
+  static async findById(sessionId: string): Promise<GameSession | null> {
+    const query = 'SELECT * FROM game_sessions WHERE id = $1';
+    const result = await pool.query(query, [sessionId]);
+    return result.rows[0] || null;
+  }
+
   static async findByRoomCode(roomCode: string): Promise<GameSession | null> {
     const query = 'SELECT * FROM game_sessions WHERE room_code = $1';
     const result = await pool.query(query, [roomCode]);
     return result.rows[0] || null;
   }
 
-  static async addPlayer(sessionId: string, userId: string, playerOrder: number): Promise<void> {
+  // elo_after starts equal to elo_before; rated games overwrite it when they finish
+  static async addPlayer(
+    sessionId: string,
+    userId: string,
+    playerOrder: number,
+    eloBefore: number,
+    team: number | null = null
+  ): Promise<void> {
     const query = `
-      INSERT INTO game_participants (session_id, user_id, player_order)
-      VALUES ($1, $2, $3)
+      INSERT INTO game_participants (session_id, user_id, player_order, elo_before, elo_after, team)
+      VALUES ($1, $2, $3, $4, $4, $5)
     `;
-    await pool.query(query, [sessionId, userId, playerOrder]);
+    await pool.query(query, [sessionId, userId, playerOrder, eloBefore, team]);
   }
 
   static async getPlayers(sessionId: string): Promise<any[]> {
     const query = `
-      SELECT u.id, u.username, gp.player_order, gp.joined_at
+      SELECT u.id, u.username, gp.player_order, gp.team, gp.joined_at
       FROM game_participants gp
       JOIN users u ON gp.user_id = u.id
       WHERE gp.session_id = $1
@@ -58,6 +121,25 @@ export class GameSessionModel {
     await pool.query(query, [status, sessionId]);
   }
 
+  // False if the session was not playing, e.g. its result has already been recorded
+  static async finish(sessionId: string, winnerId: string | null, client: Queryable = pool): Promise<boolean> {
+    const query = `
+      UPDATE game_sessions SET status = 'finished', finished_at = NOW(), winner_id = $2
+      WHERE id = $1 AND status = 'playing'
+    `;
+    const result = await client.query(query, [sessionId, winnerId]);
+    return (result.rowCount ?? 0) > 0;
+  }
+
+  // For games that never started or could not be finished; finished games are left alone
+  static async cancel(sessionId: string): Promise<void> {
+    const query = `
+      UPDATE game_sessions SET status = 'cancelled', finished_at = NOW()
+      WHERE id = $1 AND status IN ('waiting', 'playing')
+    `;
+    await pool.query(query, [sessionId]);
+  }
+
   private static generateRoomCode(): string {
     return Math.random().toString(36).substr(2, 6).toUpperCase();
   }
@@ -6,6 +6,7 @@ export interface GameType {
   description: string;
   min_players: number;
   max_players: number;
+  team_size?: number; // players per side; omitted when everyone plays for themselves
   estimated_duration: string;
   difficulty_level: 'easy' | 'medium' | 'hard';
   is_active: boolean;
@@ -105,6 +106,57 @@ export class GameTypeModel {
     }
   }
 
+  // Insert or refresh a game type row from its registry definition
+  static async upsert(gameType: GameType): Promise<void> {
+    const query = `
+      INSERT INTO game_types (
+        id, name, description, min_players, max_players,
+        estimated_duration, difficulty_level, icon, rules, tags
+      )
+      VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10)
+      ON CONFLICT (id) DO UPDATE SET
+        name = EXCLUDED.name,
+        description = EXCLUDED.description,
+        min_players = EXCLUDED.min_players,
+        max_players = EXCLUDED.max_players,
+        estimated_duration = EXCLUDED.estimated_duration,
+        difficulty_level = EXCLUDED.difficulty_level,
+        icon = EXCLUDED.icon,
+        rules = EXCLUDED.rules,
+        tags = EXCLUDED.tags,
+        updated_at = NOW()
+    `;
+
+    await pool.query(query, [
+      gameType.id,
+      gameType.name,
+      gameType.description,
+      gameType.min_players,
+      gameType.max_players,
+      gameType.estimated_duration,
+      gameType.difficulty_level,
+      gameType.icon,
+      gameType.rules,
+      gameType.tags || []
+    ]);
+  }
+
+  // Seed a default configuration value without overwriting one that was tuned in the database
+  static async ensureConfiguration(configuration: GameConfiguration): Promise<void> {
+    const query = `
+      INSERT INTO game_configurations (game_type_id, config_key, config_value, description)
+      VALUES ($1, $2, $3, $4)
+      ON CONFLICT (game_type_id, config_key) DO NOTHING
+    `;
+
+    await pool.query(query, [
+      configuration.game_type_id,
+      configuration.config_key,
+      JSON.stringify(configuration.config_value),
+      configuration.description
+    ]);
+  }
+
   // Search game types
   static async search(filters: {
     difficulty?: string;
@@ -42,6 +42,12 @@ export class UserModel {
     return result.rows[0] || null;
   }
 
+  static async findByUsername(username: string): Promise<User | null> {
+    const query = 'SELECT id, username, email, created_at, last_login FROM users WHERE username = $1';
+    const result = await pool.query(query, [username]);
+    return result.rows[0] || null;
+  }
+
   static async updateLastLogin(id: string): Promise<void> {
     const query = 'UPDATE users SET last_login = NOW() WHERE id = $1';
     await pool.query(query, [id]);
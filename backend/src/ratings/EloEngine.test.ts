@@ -0,0 +1,37 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { EloEngine } from './EloEngine';
+import { RatedResult } from './RatingEngine';
+
+const engine = new EloEngine();
+
+function result(userId: string, rating: number, placement: number): RatedResult {
+  return { userId, rating, deviation: 350, volatility: 0.06, result: placement === 1 ? 'win' : 'loss', placement };
+}
+
+test('a one-on-one win between equal players moves half the K-factor', () => {
+  const ratings = engine.calculate([result('a', 1000, 1), result('b', 1000, 2)]);
+
+  assert.equal(ratings.get('a')!.rating, 1016);
+  assert.equal(ratings.get('b')!.rating, 984);
+  assert.equal(ratings.get('a')!.deviation, 350);
+});
+
+test('a draw between equal players changes nothing', () => {
+  const ratings = engine.calculate([result('a', 1000, 1), result('b', 1000, 1)]);
+
+  assert.equal(ratings.get('a')!.rating, 1000);
+  assert.equal(ratings.get('b')!.rating, 1000);
+});
+
+test('free-for-all games are rated pairwise from placements, with ties splitting the points', () => {
+  const ratings = engine.calculate([result('first', 1000, 1), result('tied-1', 1000, 2), result('tied-2', 1000, 2)]);
+
+  assert.equal(ratings.get('first')!.rating, 1016);
+  assert.equal(ratings.get('tied-1')!.rating, 992);
+  assert.equal(ratings.get('tied-2')!.rating, 992);
+});
+
+test('a game without an opponent is not rated', () => {
+  assert.equal(engine.calculate([result('alone', 1000, 1)]).size, 0);
+});
@@ -0,0 +1,42 @@
+import { pairwiseScore, PlayerRating, RatedResult, RatingEngine } from './RatingEngine';
+
+// Classic ELO with one K-factor for everyone; deviation and volatility pass through unchanged.
+// Games with more than two players are split into head-to-heads that share the K-factor.
+export class EloEngine implements RatingEngine {
+  readonly name = 'elo';
+  private static readonly K_FACTOR = 32;
+  private static readonly MIN_RATING = 500;
+
+  calculate(results: RatedResult[]): Map<string, PlayerRating> {
+    const newRatings = new Map<string, PlayerRating>();
+    if (results.length < 2) return newRatings;
+
+    const kFactor = EloEngine.K_FACTOR / (results.length - 1);
+    for (const player of results) {
+      let change = 0;
+      for (const opponent of results) {
+        if (opponent.userId === player.userId) continue;
+        change += kFactor * (pairwiseScore(player, opponent) - this.expectedScore(player, opponent));
+      }
+      newRatings.set(player.userId, this.withRating(player, player.rating + change));
+    }
+
+    return newRatings;
+  }
+
+  expectedScore(a: PlayerRating, b: PlayerRating): number {
+    return 1 / (1 + Math.pow(10, (b.rating - a.rating) / 400));
+  }
+
+  inactive(player: PlayerRating): PlayerRating {
+    return player;
+  }
+
+  private withRating(player: PlayerRating, rating: number): PlayerRating {
+    return {
+      rating: Math.max(EloEngine.MIN_RATING, Math.round(rating)),
+      deviation: player.deviation,
+      volatility: player.volatility
+    };
+  }
+}
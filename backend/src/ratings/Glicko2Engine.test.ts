@@ -0,0 +1,60 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { Glicko2Engine } from './Glicko2Engine';
+import { INITIAL_RATING, RatedResult } from './RatingEngine';
+
+const engine = new Glicko2Engine();
+
+function result(userId: string, rating: number, deviation: number, placement: number): RatedResult {
+  return { userId, rating, deviation, volatility: 0.06, result: placement === 1 ? 'win' : 'loss', placement };
+}
+
+// Glickman's worked example (1500/200 beats 1400/30, loses to 1550/100 and 1700/300), shifted by
+// -500 because ratings here are centred on 1000. Placements give the player exactly those three results.
+test('reproduces the worked example from the Glicko-2 paper', () => {
+  const ratings = engine.calculate([
+    result('player', 1000, 200, 2),
+    result('beaten', 900, 30, 3),
+    result('lost-to-1', 1050, 100, 1),
+    result('lost-to-2', 1200, 300, 1)
+  ]);
+
+  const player = ratings.get('player')!;
+  assert.equal(player.rating, 964);
+  assert.ok(Math.abs(player.deviation - 151.52) < 0.01, `deviation ${player.deviation}`);
+  assert.ok(Math.abs(player.volatility - 0.05999) < 0.00001, `volatility ${player.volatility}`);
+});
+
+test('a draw between equal players only shrinks their deviation', () => {
+  const ratings = engine.calculate([result('a', 1200, 120, 1), result('b', 1200, 120, 1)]);
+
+  for (const id of ['a', 'b']) {
+    assert.equal(ratings.get(id)!.rating, 1200);
+    assert.ok(ratings.get(id)!.deviation < 120);
+  }
+});
+
+test('upsets move ratings further than expected results', () => {
+  const expected = engine.calculate([result('strong', 1400, 80, 1), result('weak', 1000, 80, 2)]);
+  const upset = engine.calculate([result('strong', 1400, 80, 2), result('weak', 1000, 80, 1)]);
+
+  const expectedGain = expected.get('strong')!.rating - 1400;
+  const upsetGain = upset.get('weak')!.rating - 1000;
+  assert.ok(expectedGain > 0 && upsetGain > expectedGain, `${expectedGain} vs ${upsetGain}`);
+});
+
+test('deviation grows back while a player is inactive, up to the initial deviation', () => {
+  const player = { rating: 1300, deviation: 60, volatility: 0.06 };
+
+  assert.deepEqual(engine.inactive(player, 0), player);
+  assert.ok(engine.inactive(player, 5).deviation > 60);
+  assert.equal(engine.inactive(player, 100000).deviation, INITIAL_RATING.deviation);
+});
+
+test('expected scores of a pairing add up to one', () => {
+  const a = { rating: 1100, deviation: 90, volatility: 0.06 };
+  const b = { rating: 950, deviation: 250, volatility: 0.06 };
+
+  assert.ok(Math.abs(engine.expectedScore(a, b) + engine.expectedScore(b, a) - 1) < 1e-12);
+  assert.ok(engine.expectedScore(a, b) > 0.5);
+});
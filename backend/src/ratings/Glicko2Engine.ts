@@ -0,0 +1,121 @@
+import { INITIAL_RATING, pairwiseScore, PlayerRating, RatedResult, RatingEngine } from './RatingEngine';
+
+// Glicko-2 (Glickman, 2012) with every game treated as its own rating period; in free-for-all games
+// each player is rated against every opponent by placement, as if they had played them one-on-one.
+// Internally ratings live on the Glicko-2 scale: mu = (r - center) / SCALE, phi = RD / SCALE.
+export class Glicko2Engine implements RatingEngine {
+  readonly name = 'glicko2';
+  private static readonly SCALE = 173.7178;
+  private static readonly TAU = 0.5; // limits how fast volatility can change
+  private static readonly EPSILON = 0.000001; // convergence tolerance of the volatility search
+  private static readonly MIN_DEVIATION = 30; // keeps established ratings from freezing completely
+  private static readonly MIN_RATING = 100;
+
+  calculate(results: RatedResult[]): Map<string, PlayerRating> {
+    const newRatings = new Map<string, PlayerRating>();
+
+    for (const player of results) {
+      const opponents = results.filter(r => r.userId !== player.userId);
+      if (opponents.length === 0) continue;
+      newRatings.set(player.userId, this.rate(player, opponents));
+    }
+
+    return newRatings;
+  }
+
+  expectedScore(a: PlayerRating, b: PlayerRating): number {
+    const combined = Math.sqrt(a.deviation ** 2 + b.deviation ** 2) / Glicko2Engine.SCALE;
+    return this.expected(this.mu(a), this.mu(b), combined);
+  }
+
+  // Deviation grows back towards the initial value while a player sits out
+  inactive(player: PlayerRating, ratingPeriods: number): PlayerRating {
+    if (ratingPeriods <= 0) return player;
+
+    const phi = Math.sqrt(this.phi(player) ** 2 + player.volatility ** 2 * ratingPeriods);
+    return { ...player, deviation: Math.min(INITIAL_RATING.deviation, phi * Glicko2Engine.SCALE) };
+  }
+
+  private rate(player: RatedResult, opponents: RatedResult[]): PlayerRating {
+    const mu = this.mu(player);
+    const phi = this.phi(player);
+
+    // Estimated variance of the rating from these results, and the improvement they indicate
+    let varianceInverse = 0;
+    let weightedSurprise = 0;
+    for (const opponent of opponents) {
+      const g = this.g(this.phi(opponent));
+      const expected = this.expected(mu, this.mu(opponent), this.phi(opponent));
+      varianceInverse += g * g * expected * (1 - expected);
+      weightedSurprise += g * (pairwiseScore(player, opponent) - expected);
+    }
+    const variance = 1 / varianceInverse;
+    const delta = variance * weightedSurprise;
+
+    const volatility = this.newVolatility(phi, player.volatility, variance, delta);
+    const phiStar = Math.sqrt(phi * phi + volatility * volatility);
+    const newPhi = 1 / Math.sqrt(1 / (phiStar * phiStar) + 1 / variance);
+    const newMu = mu + newPhi * newPhi * weightedSurprise;
+
+    return {
+      rating: Math.max(Glicko2Engine.MIN_RATING, Math.round(newMu * Glicko2Engine.SCALE + INITIAL_RATING.rating)),
+      deviation: Math.max(Glicko2Engine.MIN_DEVIATION, newPhi * Glicko2Engine.SCALE),
+      volatility
+    };
+  }
+
+  // Step 5 of the paper: the Illinois algorithm on f(x), where x = ln(sigma^2)
+  private newVolatility(phi: number, sigma: number, variance: number, delta: number): number {
+    const tau = Glicko2Engine.TAU;
+    const a = Math.log(sigma * sigma);
+    const f = (x: number) => {
+      const ex = Math.exp(x);
+      const denominator = phi * phi + variance + ex;
+      return (ex * (delta * delta - phi * phi - variance - ex)) / (2 * denominator * denominator) - (x - a) / (tau * tau);
+    };
+
+    let A = a;
+    let B: number;
+    if (delta * delta > phi * phi + variance) {
+      B = Math.log(delta * delta - phi * phi - variance);
+    } else {
+      let k = 1;
+      while (f(a - k * tau) < 0) k++;
+      B = a - k * tau;
+    }
+
+    let fA = f(A);
+    let fB = f(B);
+    while (Math.abs(B - A) > Glicko2Engine.EPSILON) {
+      const C = A + ((A - B) * fA) / (fB - fA);
+      const fC = f(C);
+      if (fC * fB <= 0) {
+        A = B;
+        fA = fB;
+      } else {
+        fA /= 2;
+      }
+      B = C;
+      fB = fC;
+    }
+
+    return Math.exp(A / 2);
+  }
+
+  private expected(mu: number, opponentMu: number, opponentPhi: number): number {
+    return 1 / (1 + Math.exp(-this.g(opponentPhi) * (mu - opponentMu)));
+  }
+
+  // Discounts results against opponents whose rating is uncertain
+  private g(phi: number): number {
+    return 1 / Math.sqrt(1 + (3 * phi * phi) / (Math.PI * Math.PI));
+  }
+
+  private mu(player: PlayerRating): number {
+    return (player.rating - INITIAL_RATING.rating) / Glicko2Engine.SCALE;
+  }
+
+  private phi(player: PlayerRating): number {
+    return player.deviation / Glicko2Engine.SCALE;
+  }
+}
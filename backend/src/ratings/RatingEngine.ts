@@ -0,0 +1,37 @@
+export type RatedOutcome = 'win' | 'loss' | 'draw' | 'forfeit' | 'disconnect';
+
+export interface PlayerRating {
+  rating: number;
+  deviation: number; // uncertainty in the rating, on the rating scale
+  volatility: number; // how erratic the player's results are
+}
+
+export interface RatedResult extends PlayerRating {
+  userId: string;
+  result: RatedOutcome;
+  placement: number; // 1 is best; players with equal placements tied
+  team?: number; // teammates are rated together as one side
+}
+
+// A rating system: turns one game's results into new ratings
+export interface RatingEngine {
+  readonly name: string;
+  calculate(results: RatedResult[]): Map<string, PlayerRating>;
+  // Chance that a beats b, used by matchmaking to judge how even a pairing is
+  expectedScore(a: PlayerRating, b: PlayerRating): number;
+  // A rating after the player sat out this many rating periods
+  inactive(player: PlayerRating, ratingPeriods: number): PlayerRating;
+}
+
+export const INITIAL_RATING: PlayerRating = {
+  rating: 1000,
+  deviation: 350,
+  volatility: 0.06
+};
+
+// Score of a against b in one game, treating every pair of players as a head-to-head:
+// 1 for finishing ahead of them, 0.5 for a tie
+export function pairwiseScore(a: RatedResult, b: RatedResult): number {
+  if (a.placement === b.placement) return 0.5;
+  return a.placement < b.placement ? 1 : 0;
+}
@@ -1,136 +1,138 @@
 import express, { Request, Response } from 'express';
-import { pool } from '../config/database';
+import { GameRegistry } from '../games/GameRegistry';
+import { GameSessionService } from '../services/GameSessionService';
+import { MatchmakingService } from '../services/MatchmakingService';
+import { authenticateToken, AuthenticatedRequest } from '../middleware/auth';
 
 const router = express.Router();
 
-// Get all available game types
+// Get all available game types, straight from the registered game modules
 router.get('/types', async (req: Request, res: Response) => {
   try {
-    console.log('Fetching game types from database...');
-    
-    // Direct database query for now
-    const query = `
-      SELECT * FROM game_types 
-      WHERE is_active = true 
-      ORDER BY difficulty_level ASC, name ASC
-    `;
-    
-    const result = await pool.query(query);
-    console.log('Found games:', result.rows);
-    
+    const difficultyOrder = ['easy', 'medium', 'hard'];
+    const gameTypes = GameRegistry.getAll()
+      .map(definition => GameRegistry.toGameType(definition))
+      .sort((a, b) =>
+        difficultyOrder.indexOf(a.difficulty_level) - difficultyOrder.indexOf(b.difficulty_level) ||
+        a.name.localeCompare(b.name)
+      );
+
     res.json({
       success: true,
-      data: result.rows
+      data: gameTypes
     });
   } catch (error: any) {
     console.error('Error fetching game types:', error);
-    
-    // Return fallback data if database fails
-    const fallbackData = [
-      {
-        id: 'tictactoe',
-        name: 'Tic Tac Toe',
-        description: 'Classic 3x3 grid game where you try to get three in a row',
-        min_players: 2,
-        max_players: 2,
-        estimated_duration: '00:03:00',
-        difficulty_level: 'easy',
-        is_active: true,
-        icon: '⭕',
-        rules: 'Take turns placing X or O on a 3x3 grid. First to get three in a row wins!',
-        tags: ['classic', 'quick', 'simple'],
-        created_at: new Date(),
-        updated_at: new Date()
-      },
-      {
-        id: 'checkers',
-        name: 'Checkers',
-        description: 'Strategic board game with jumping and capturing',
-        min_players: 2,
-        max_players: 2,
-        estimated_duration: '00:15:00',
-        difficulty_level: 'medium',
-        is_active: true,
-        icon: '🔴',
-        rules: 'Move your pieces diagonally and jump over opponents to capture them.',
-        tags: ['strategy', 'classic', 'board'],
-        created_at: new Date(),
-        updated_at: new Date()
-      },
-      {
-        id: 'chess',
-        name: 'Chess',
-        description: 'Ultimate strategy game with different piece types',
-        min_players: 2,
-        max_players: 2,
-        estimated_duration: '00:30:00',
-        difficulty_level: 'hard',
-        is_active: true,
-        icon: '♔',
-        rules: 'Checkmate your opponent\'s king using various pieces with unique movement patterns.',
-        tags: ['strategy', 'classic', 'complex'],
-        created_at: new Date(),
-        updated_at: new Date()
-      }
-    ];
-    
+    res.status(500).json({
+      success: false,
+      error: 'Failed to fetch game types'
+    });
+  }
+});
+
+// Games in progress that can be watched as a spectator
+router.get('/live', authenticateToken, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const gameType = req.query.gameType as string | undefined;
+    const sessions = GameSessionService.getLiveSessions()
+      .filter(session => !gameType || session.gameType === gameType)
+      .filter(session => !session.players.some((player: any) => player.id === req.user?.id));
+
     res.json({
       success: true,
-      data: fallbackData
+      data: sessions
+    });
+  } catch (error: any) {
+    console.error('Error fetching live games:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to fetch live games'
     });
   }
 });
 
-// Create game room (placeholder)
-router.post('/create', async (req: Request, res: Response) => {
+// Legal moves in a live session; defaults to the player whose turn it is
+router.get('/sessions/:sessionId/legal-moves', authenticateToken, async (req: AuthenticatedRequest, res: Response) => {
   try {
-    const { gameType, matchType = 'casual' } = req.body;
-    
-    // Generate a simple room code
-    const roomCode = Math.random().toString(36).substring(2, 8).toUpperCase();
-    const sessionId = `session_${Date.now()}`;
-    
-    res.status(201).json({
+    const session = GameSessionService.getSession(req.params.sessionId);
+    if (!session) {
+      return res.status(404).json({
+        success: false,
+        error: 'Game session not found'
+      });
+    }
+
+    const playerId = (req.query.playerId as string) || session.game.getCurrentPlayer().id;
+    if (!session.players.some(player => player.id === playerId)) {
+      return res.status(400).json({
+        success: false,
+        error: 'Player is not part of this session'
+      });
+    }
+
+    res.json({
       success: true,
       data: {
-        sessionId,
-        roomCode,
-        gameType,
-        matchType,
-        status: 'waiting',
-        maxPlayers: 2
+        sessionId: session.sessionId,
+        gameType: session.gameType,
+        playerId,
+        moves: session.game.getLegalMoves(playerId)
       }
     });
   } catch (error: any) {
-    console.error('Error creating game room:', error);
+    console.error('Error fetching legal moves:', error);
     res.status(500).json({
       success: false,
-      error: 'Failed to create game room'
+      error: 'Failed to fetch legal moves'
     });
   }
 });
 
-// Join game room (placeholder)
-router.post('/join', async (req: Request, res: Response) => {
+// Open a private room for friends to join by code; it leaves any queue the creator was waiting in.
+// Ranked games only come out of matchmaking, so friends cannot pick who they are rated against.
+router.post('/create', authenticateToken, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const { gameType, matchType = 'casual' } = req.body;
+    if (matchType !== 'casual') {
+      return res.status(400).json({
+        success: false,
+        error: 'Private rooms are casual only; use matchmaking for ranked games'
+      });
+    }
+
+    await MatchmakingService.removeFromAllQueues(req.user.id);
+    const room = await GameSessionService.createPrivateRoom(req.user.id, req.user.username, gameType);
+
+    res.status(201).json({
+      success: true,
+      data: room
+    });
+  } catch (error: any) {
+    console.error('Error creating game room:', error);
+    res.status(400).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to create game room'
+    });
+  }
+});
+
+// Take a seat in a private room by its code; the game starts once the room is full
+router.post('/join', authenticateToken, async (req: AuthenticatedRequest, res: Response) => {
   try {
     const { roomCode } = req.body;
-    
-    // For now, just return success
+
+    await MatchmakingService.removeFromAllQueues(req.user.id);
+    const room = await GameSessionService.joinPrivateRoom(req.user.id, req.user.username, roomCode);
+
     res.json({
       success: true,
-      data: {
-        sessionId: `session_${Date.now()}`,
-        roomCode,
-        gameType: 'tictactoe',
-        status: 'waiting',
-        playerOrder: 2
-      }
+      data: room
     });
   } catch (error: any) {
     console.error('Error joining game room:', error);
-    res.status(500).json({
+    res.status(400).json({
       success: false,
-      error: 'Failed to join game room'
+      error: error instanceof Error ? error.message : 'Failed to join game room'
     });
   }
 });
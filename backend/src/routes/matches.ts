@@ -0,0 +1,78 @@
+import express, { Response } from 'express';
+import { GameSessionModel } from '../models/GameSession';
+import { GameMoveModel } from '../models/GameMove';
+import { BaseGame } from '../games/BaseGame';
+import { authenticateToken, AuthenticatedRequest } from '../middleware/auth';
+
+const router = express.Router();
+
+// Everything needed to replay a game: metadata, players in turn order, the ordered move list
+// and the board after each move, rebuilt by the game's own rules so clients need none
+router.get('/:sessionId/replay', authenticateToken, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const { sessionId } = req.params;
+    const session = await GameSessionModel.findById(sessionId);
+
+    if (!session) {
+      return res.status(404).json({
+        success: false,
+        error: 'Match not found'
+      });
+    }
+
+    const [players, moves] = await Promise.all([
+      GameSessionModel.getPlayers(sessionId),
+      GameMoveModel.findBySession(sessionId)
+    ]);
+
+    const orderedPlayers = players.map(player => ({
+      id: player.id,
+      username: player.username,
+      elo: 0,
+      isConnected: false,
+      team: player.team ?? undefined
+    }));
+    const frames = BaseGame.buildReplayFrames(
+      session.game_type,
+      orderedPlayers,
+      session.config || {},
+      moves.map(move => ({ playerId: move.user_id, moveData: move.move_data }))
+    );
+
+    res.json({
+      success: true,
+      data: {
+        sessionId: session.id,
+        roomCode: session.room_code,
+        gameType: session.game_type,
+        matchType: session.match_type,
+        status: session.status,
+        config: session.config || {},
+        startedAt: session.started_at,
+        finishedAt: session.finished_at,
+        winnerId: session.winner_id || null,
+        players: players.map(player => ({
+          id: player.id,
+          username: player.username,
+          playerOrder: player.player_order,
+          team: player.team
+        })),
+        moves: moves.map(move => ({
+          moveNumber: move.move_number,
+          playerId: move.user_id,
+          moveData: move.move_data,
+          timestamp: move.created_at
+        })),
+        frames
+      }
+    });
+  } catch (error: any) {
+    console.error('Error fetching match replay:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to fetch match replay'
+    });
+  }
+});
+
+export default router;
@@ -4,12 +4,17 @@ import helmet from 'helmet';
 import dotenv from 'dotenv';
 import { createServer } from 'http';
 import { Server } from 'socket.io';
+import { createAdapter } from '@socket.io/redis-adapter';
 import jwt from 'jsonwebtoken';
 import { initializeDatabase, pool, redis } from './config/database';
 import { MatchmakingService } from './services/MatchmakingService';
+import { GameSessionService } from './services/GameSessionService';
+import { PartyService } from './services/PartyService';
+import { GameRegistry } from './games/GameRegistry';
+import { BotPlayer } from './games/BotPlayer';
 import authRoutes from './routes/auth';
 import gameRoutes from './routes/games';
-import type { Player } from './services/GameRoom';
+import matchRoutes from './routes/matches';
 
 // Load environment variables
 dotenv.config();
@@ -29,6 +34,8 @@ const io = new Server(server, {
 });
 
 MatchmakingService.init(io);
+GameSessionService.init(io);
+PartyService.init(io);
 
 const PORT = process.env.PORT ? parseInt(process.env.PORT, 10) : 3001;
 
@@ -66,54 +73,6 @@ app.get('/health', (req: Request, res: Response) => {
   });
 });
 
-// Game types endpoint
-app.get('/api/games/types', async (req: Request, res: Response) => {
-  try {
-    const fallbackData = [
-      {
-        id: 'tictactoe',
-        name: 'Tic Tac Toe',
-        description: 'Classic 3x3 grid game where you try to get three in a row',
-        min_players: 2,
-        max_players: 2,
-        estimated_duration: '3 minutes',
-        difficulty_level: 'easy',
-        is_active: true,
-        icon: '⭕',
-        rules: 'Take turns placing X or O on a 3x3 grid. First to get three in a row wins!',
-        tags: ['classic', 'quick', 'simple'],
-        created_at: new Date(),
-        updated_at: new Date()
-      },
-      {
-        id: 'checkers',
-        name: 'Checkers',
-        description: 'Strategic board game with jumping and capturing',
-        min_players: 2,
-        max_players: 2,
-        estimated_duration: '15 minutes',
-        difficulty_level: 'medium',
-        is_active: true,
-        icon: '🔴',
-        rules: 'Move your pieces diagonally and jump over opponents to capture them.',
-        tags: ['strategy', 'classic', 'board'],
-        created_at: new Date(),
-        updated_at: new Date()
-      }
-    ];
-    
-    res.json({
-      success: true,
-      data: fallbackData
-    });
-  } catch (error) {
-    res.status(500).json({
-      success: false,
-      error: 'Failed to fetch games'
-    });
-  }
-});
-
 // Debug endpoints
 app.get('/debug/queue/:gameType/:matchType?', async (req: Request, res: Response) => {
   try {
@@ -190,7 +149,7 @@ app.post('/debug/add-user-to-queue', async (req: Request, res: Response) => {
     
     console.log(`[DEBUG] Manually adding user ${userId} to queue`);
     
-    await MatchmakingService.addToQueue(userId, gameType, matchType, 'debug-socket-123');
+    await MatchmakingService.addToQueue(userId, gameType, matchType);
     const status = await MatchmakingService.getQueueStatus(gameType, matchType);
     
     res.json({
@@ -206,6 +165,7 @@ app.post('/debug/add-user-to-queue', async (req: Request, res: Response) => {
 // API routes
 app.use('/api/auth', authRoutes);
 app.use('/api/games', gameRoutes);
+app.use('/api/matches', matchRoutes);
 
 // Socket.IO connection handling with proper authentication
 io.use(async (socket, next) => {
@@ -227,6 +187,43 @@ io.use(async (socket, next) => {
   }
 });
 
+// Confirm the queue to a player connected here and keep sending them its status;
+// when a leader queues their party every member gets this
+const startQueueUpdates = async (userId: string, gameType: string, matchType: 'casual' | 'ranked') => {
+  const socketId = userSockets.get(userId);
+  const playerSocket = socketId ? io.sockets.sockets.get(socketId) : undefined;
+  if (!playerSocket) return;
+
+  // Get updated queue status, with the wait estimate for this player's rating band
+  const queueStatus = await MatchmakingService.getPlayerQueueStatus(userId, gameType, matchType);
+  playerSocket.emit('queue-joined', {
+    gameType,
+    matchType,
+    status: queueStatus,
+    estimatedWaitTime: queueStatus.estimatedWaitTime
+  });
+
+  stopQueueUpdates(userId);
+  // Send periodic queue updates
+  playerSocket.data.queueUpdateInterval = setInterval(async () => {
+    try {
+      const updatedStatus = await MatchmakingService.getPlayerQueueStatus(userId, gameType, matchType);
+      playerSocket.emit('queue-status-update', updatedStatus);
+    } catch (error) {
+      console.error('[SOCKET] Error updating queue status:', error);
+    }
+  }, 5000); // Update every 5 seconds
+};
+
+const stopQueueUpdates = (userId: string) => {
+  const socketId = userSockets.get(userId);
+  const playerSocket = socketId ? io.sockets.sockets.get(socketId) : undefined;
+  if (playerSocket?.data.queueUpdateInterval) {
+    clearInterval(playerSocket.data.queueUpdateInterval);
+    delete playerSocket.data.queueUpdateInterval;
+  }
+};
+
 io.on('connection', async (socket) => {
   const { userId, username } = socket.data;
   
@@ -235,9 +232,7 @@ io.on('connection', async (socket) => {
   // Store connection info
   connectedUsers.set(socket.id, { socketId: socket.id, userId, username });
   userSockets.set(userId, socket.id);
-
-  // Add this line to update Redis with the latest socket ID:
-  await redis.setEx(`socket:${userId}`, 300, socket.id);
+  socket.join(GameSessionService.userRoom(userId));
 
   socket.emit('authenticated', { 
     success: true, 
@@ -247,6 +242,15 @@ io.on('connection', async (socket) => {
 
   socket.emit('test-event', { message: 'Hello from backend!' });
 
+  // Resume any game this user was playing before reconnecting
+  await GameSessionService.playerReconnected(userId, socket.id);
+
+  // Parties outlive a dropped connection, so restore the member's view of theirs
+  const currentParty = PartyService.getParty(userId);
+  if (currentParty) {
+    socket.emit('party-updated', PartyService.toPayload(currentParty));
+  }
+
   // Matchmaking events
   socket.on('join-queue', async (data) => {
     console.log(`[SOCKET] ${username} (${userId}) joining queue:`, data);
@@ -257,41 +261,25 @@ io.on('connection', async (socket) => {
       const beforeStatus = await MatchmakingService.getQueueStatus(gameType, matchType);
       console.log(`[SOCKET] Queue status BEFORE adding ${username}:`, beforeStatus);
       
-      // Add player to matchmaking queue with their socket ID
-      await MatchmakingService.addToQueue(userId, gameType, matchType, socket.id);
+      // A party queues as a whole, and only its leader can queue it
+      const party = PartyService.getParty(userId);
+      if (party && party.leaderId !== userId) {
+        throw new Error('Only your party leader can join a queue');
+      }
+
+      if (party) {
+        await MatchmakingService.addPartyToQueue(party.id, party.members.map(m => m.id), gameType, matchType);
+      } else {
+        // Add player to matchmaking queue with their socket ID
+        await MatchmakingService.addToQueue(userId, gameType, matchType);
+      }
       
-      // Get updated queue status
+      for (const memberId of party ? party.members.map(m => m.id) : [userId]) {
+        await startQueueUpdates(memberId, gameType, matchType);
+      }
       const queueStatus = await MatchmakingService.getQueueStatus(gameType, matchType);
-      console.log(`[SOCKET] Queue status AFTER adding ${username}:`, queueStatus);
-      
-      socket.emit('queue-joined', {
-        gameType,
-        matchType,
-        status: queueStatus,
-        estimatedWaitTime: queueStatus.estimatedWaitTime
-      });
-      
       console.log(`[SOCKET] ${username} added to ${gameType} ${matchType} queue - Total players: ${queueStatus.playersInQueue}`);
       
-      // Send periodic queue updates
-      const updateInterval = setInterval(async () => {
-        try {
-          const updatedStatus = await MatchmakingService.getQueueStatus(gameType, matchType);
-          socket.emit('queue-status-update', updatedStatus);
-          
-          // Try to process queue for matches if we have enough players
-          if (updatedStatus.playersInQueue >= 2) {
-            console.log(`[MATCHMAKING] Attempting to create match - ${updatedStatus.playersInQueue} players in queue`);
-            await MatchmakingService.processQueue(gameType, matchType);
-          }
-        } catch (error) {
-          console.error('[SOCKET] Error updating queue status:', error);
-        }
-      }, 5000); // Update every 5 seconds
-      
-      // Store interval to clear later
-      socket.data.queueUpdateInterval = updateInterval;
-      
     } catch (error) {
       console.error('[SOCKET] Error joining queue:', error);
       socket.emit('error', { message: 'Failed to join queue: ' + (error instanceof Error ? error.message : 'Unknown error') });
@@ -304,62 +292,243 @@ io.on('connection', async (socket) => {
       await MatchmakingService.removeFromAllQueues(userId);
       socket.emit('queue-left');
       
-      // Clear queue update interval
+      // Clear queue update intervals; party members were taken out of the queue as well
+      const party = PartyService.getParty(userId);
+      for (const memberId of party ? party.members.map(m => m.id) : [userId]) {
+        stopQueueUpdates(memberId);
+      }
+    } catch (error) {
+      console.error('[SOCKET] Error leaving queue:', error);
+    }
+  });
+
+  // Parties: the leader invites friends by username and queues for the whole group
+  socket.on('party-invite', async (data) => {
+    try {
+      await PartyService.invite(userId, username, data?.username);
+    } catch (error) {
+      console.error('[SOCKET] Error sending party invite:', error);
+      socket.emit('error', { message: error instanceof Error ? error.message : 'Failed to send invite' });
+    }
+  });
+
+  socket.on('party-accept', async (data) => {
+    try {
+      await PartyService.acceptInvite(userId, username, data?.partyId);
+    } catch (error) {
+      console.error('[SOCKET] Error joining party:', error);
+      socket.emit('error', { message: error instanceof Error ? error.message : 'Failed to join party' });
+    }
+  });
+
+  socket.on('party-decline', (data) => {
+    try {
+      PartyService.declineInvite(userId, data?.partyId);
+    } catch (error) {
+      console.error('[SOCKET] Error declining party invite:', error);
+    }
+  });
+
+  socket.on('party-leave', async () => {
+    try {
+      await PartyService.leaveParty(userId);
+    } catch (error) {
+      console.error('[SOCKET] Error leaving party:', error);
+    }
+  });
+
+  socket.on('party-kick', async (data) => {
+    try {
+      await PartyService.kick(userId, data?.userId);
+    } catch (error) {
+      console.error('[SOCKET] Error removing party member:', error);
+      socket.emit('error', { message: error instanceof Error ? error.message : 'Failed to remove player' });
+    }
+  });
+
+  // Ready check: the game only starts once every matched player has accepted
+  socket.on('accept-match', async () => {
+    try {
+      await MatchmakingService.acceptMatch(userId);
+    } catch (error) {
+      console.error('[SOCKET] Error accepting match:', error);
+      socket.emit('error', { message: error instanceof Error ? error.message : 'Failed to accept match' });
+    }
+  });
+
+  socket.on('decline-match', async () => {
+    try {
+      await MatchmakingService.declineMatch(userId);
+    } catch (error) {
+      console.error('[SOCKET] Error declining match:', error);
+    }
+  });
+
+  // Practice game against a server-side bot; always casual
+  socket.on('play-vs-computer', async (data) => {
+    const { gameType, difficulty = 'medium' } = data || {};
+    try {
+      if (!BotPlayer.isDifficulty(difficulty)) {
+        throw new Error(`Unknown difficulty: ${difficulty}`);
+      }
+
+      await MatchmakingService.removeFromAllQueues(userId);
       if (socket.data.queueUpdateInterval) {
         clearInterval(socket.data.queueUpdateInterval);
         delete socket.data.queueUpdateInterval;
       }
+      await GameSessionService.startBotGame(userId, username, socket.id, gameType, difficulty);
     } catch (error) {
-      console.error('[SOCKET] Error leaving queue:', error);
+      console.error('[SOCKET] Error starting bot game:', error);
+      socket.emit('error', { message: error instanceof Error ? error.message : 'Failed to start game' });
     }
   });
 
-  socket.on('leave-room', async ({ sessionId }) => {
-    // Find the match/session
-    const match = MatchmakingService['activeMatches'].get(sessionId);
-    if (!match) return;
-
-    // Remove the leaving player
-    match.players = match.players.filter((p: Player) => p.id !== socket.data.userId);
-
-    // If only one player remains, end the game and assign win
-    if (match.players.length === 1 && match.status === 'playing') {
-      match.status = 'finished';
-      const winner = match.players[0];
-      const winnerSocketId = await redis.get(`socket:${winner.user_id}`);
-      const loserSocketId = socket.id;
-
-      // Emit game-ended to winner
-      if (winnerSocketId) {
-        io.to(winnerSocketId).emit('game-ended', {
-          result: { winner, loser: { id: socket.data.userId }, result: 'win-by-forfeit' },
-          stats: {},
-          achievements: []
-        });
+  // Spectators only watch; anything that would change a game is refused outright
+  const rejectSpectator = (action: string): boolean => {
+    if (!GameSessionService.isSpectating(userId)) return false;
+    socket.emit('error', { message: `Spectators cannot ${action}` });
+    return true;
+  };
+
+  // Bot backfill offered through queue-status-update after a long casual wait
+  socket.on('accept-bot-offer', async (data) => {
+    try {
+      await MatchmakingService.acceptBotOffer(userId, username, data?.gameType, socket.id);
+      if (socket.data.queueUpdateInterval) {
+        clearInterval(socket.data.queueUpdateInterval);
+        delete socket.data.queueUpdateInterval;
       }
-      // Emit game-ended to leaver
-      io.to(loserSocketId).emit('game-ended', {
-        result: { winner, loser: { id: socket.data.userId }, result: 'lose-by-forfeit' },
-        stats: {},
-        achievements: []
+    } catch (error) {
+      console.error('[SOCKET] Error accepting bot offer:', error);
+      socket.emit('error', { message: error instanceof Error ? error.message : 'Failed to start bot game' });
+    }
+  });
+
+  socket.on('decline-bot-offer', async (data) => {
+    try {
+      const { gameType, matchType = 'casual' } = data || {};
+      await MatchmakingService.declineBotOffer(userId, gameType);
+      socket.emit('queue-status-update', await MatchmakingService.getPlayerQueueStatus(userId, gameType, matchType));
+    } catch (error) {
+      console.error('[SOCKET] Error declining bot offer:', error);
+    }
+  });
+
+  // Gameplay events: the active BaseGame validates and applies everything
+  socket.on('make-move', (moveData) => {
+    if (rejectSpectator('make moves')) return;
+    try {
+      const accepted = GameSessionService.makeMove(userId, moveData);
+      if (!accepted) {
+        socket.emit('invalid-move', { message: 'Invalid move', move: moveData });
+      }
+    } catch (error) {
+      console.error('[SOCKET] Error making move:', error);
+      socket.emit('error', { message: error instanceof Error ? error.message : 'Failed to make move' });
+    }
+  });
+
+  socket.on('get-legal-moves', () => {
+    const session = GameSessionService.getSessionForPlayer(userId);
+    socket.emit('legal-moves', {
+      sessionId: session?.sessionId,
+      moves: GameSessionService.getLegalMoves(userId)
+    });
+  });
+
+  socket.on('forfeit-game', () => {
+    if (rejectSpectator('forfeit')) return;
+    console.log(`[SOCKET] ${username} forfeited their game`);
+    GameSessionService.forfeit(userId);
+  });
+
+  socket.on('request-takeback', () => {
+    if (rejectSpectator('request takebacks')) return;
+    try {
+      GameSessionService.requestTakeback(userId);
+    } catch (error) {
+      socket.emit('error', { message: error instanceof Error ? error.message : 'Failed to request takeback' });
+    }
+  });
+
+  socket.on('respond-takeback', (data) => {
+    if (rejectSpectator('answer takebacks')) return;
+    GameSessionService.respondToTakeback(userId, !!data?.accept);
+  });
+
+  socket.on('offer-draw', () => {
+    if (rejectSpectator('offer draws')) return;
+    try {
+      GameSessionService.offerDraw(userId);
+    } catch (error) {
+      socket.emit('error', { message: error instanceof Error ? error.message : 'Failed to offer draw' });
+    }
+  });
+
+  socket.on('respond-draw', (data) => {
+    if (rejectSpectator('answer draw offers')) return;
+    GameSessionService.respondToDraw(userId, !!data?.accept);
+  });
+
+  socket.on('request-rematch', async () => {
+    if (rejectSpectator('request rematches')) return;
+    try {
+      await GameSessionService.requestRematch(userId);
+    } catch (error) {
+      console.error('[SOCKET] Error starting rematch:', error);
+      socket.emit('error', { message: 'Failed to start rematch' });
+    }
+  });
+
+  // Spectating: join by session id (lobby list) or room code
+  socket.on('spectate-game', async (data) => {
+    try {
+      await GameSessionService.spectate(userId, username, socket.id, {
+        sessionId: data?.sessionId,
+        roomCode: data?.roomCode
       });
+    } catch (error) {
+      socket.emit('error', { message: error instanceof Error ? error.message : 'Failed to watch game' });
+    }
+  });
+
+  socket.on('stop-spectating', async () => {
+    await GameSessionService.stopSpectating(userId);
+  });
 
-      // Remove match from activeMatches
-      MatchmakingService['activeMatches'].delete(sessionId);
+  socket.on('send-chat', (data) => {
+    try {
+      GameSessionService.sendChat(userId, username, data?.message);
+    } catch (error) {
+      socket.emit('error', { message: error instanceof Error ? error.message : 'Failed to send message' });
     }
   });
 
+  socket.on('leave-room', async () => {
+    console.log(`[SOCKET] ${username} leaving game room`);
+    await GameSessionService.leave(userId);
+  });
+
   // Handle disconnect
   socket.on('disconnect', async (reason) => {
     console.log(`[SOCKET] User ${username} (${userId}) disconnected: ${reason}`);
     
-    // Remove from queue if they were in one
+    // Remove from queue if they were in one; their party cannot queue without them
     try {
-      await MatchmakingService.removeFromAllQueues(userId);
+      await MatchmakingService.removeFromAllQueues(userId, 'disconnected');
+      await MatchmakingService.declineMatch(userId);
+      for (const member of PartyService.getParty(userId)?.members ?? []) {
+        stopQueueUpdates(member.id);
+      }
     } catch (error) {
       console.error('[SOCKET] Error removing user from queue on disconnect:', error);
     }
     
+    // Let the running game start its reconnection window
+    GameSessionService.playerDisconnected(userId);
+    await GameSessionService.stopSpectating(userId);
+    
     // Clean up intervals
     if (socket.data.queueUpdateInterval) {
       clearInterval(socket.data.queueUpdateInterval);
@@ -391,6 +560,11 @@ app.use('*', (req: Request, res: Response) => {
       'POST /api/auth/login',
       'POST /api/auth/verify',
       'GET /api/games/types',
+      'GET /api/games/live',
+      'GET /api/games/sessions/:sessionId/legal-moves',
+      'POST /api/games/create',
+      'POST /api/games/join',
+      'GET /api/matches/:sessionId/replay',
       'GET /debug/queue/:gameType/:matchType?',
       'POST /debug/clear-queue',
       'POST /debug/add-user-to-queue'
@@ -408,9 +582,11 @@ app.use((err: Error, req: Request, res: Response, next: any) => {
 });
 
 // Graceful shutdown
-process.on('SIGTERM', () => {
+process.on('SIGTERM', async () => {
   console.log('[SERVER] SIGTERM received, shutting down gracefully');
   MatchmakingService.cleanup();
+  await GameSessionService.persistAll();
+  GameSessionService.cleanup();
   server.close(() => {
     console.log('[SERVER] Server closed');
     process.exit(0);
@@ -432,9 +608,33 @@ const startServer = async () => {
   const dbConnected = await initializeDatabase();
   
   if (dbConnected) {
+    // Rooms and broadcasts span every node, so a user room reaches the player wherever they connected
+    try {
+      const pubClient = redis.duplicate();
+      const subClient = redis.duplicate();
+      await Promise.all([pubClient.connect(), subClient.connect()]);
+      io.adapter(createAdapter(pubClient, subClient));
+    } catch (error) {
+      console.error('[STARTUP] ❌ Failed to attach the Redis adapter:', error);
+    }
+
+    // Keep game_types in step with the registered game modules
+    try {
+      await GameRegistry.syncToDatabase();
+    } catch (error) {
+      console.error('[STARTUP] ❌ Failed to sync game types:', error);
+    }
+
     // Test the matchmaking service
     await testMatchmakingService();
   }
+
+  // Pick up games that were in progress before the restart
+  try {
+    await GameSessionService.rehydrate();
+  } catch (error) {
+    console.error('[STARTUP] ❌ Failed to restore game sessions:', error);
+  }
   
   server.listen(PORT, () => {
     console.log(`🚀 PUGG Backend server running on port ${PORT}`);
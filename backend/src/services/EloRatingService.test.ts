@@ -0,0 +1,32 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { EloRatingService, GameResult } from './EloRatingService';
+
+function member(userId: string, team: number, won: boolean, rating = 1500, deviation = 100): GameResult {
+  return { userId, team, result: won ? 'win' : 'loss', placement: won ? 1 : 2, rating, deviation, volatility: 0.06 };
+}
+
+test('teammates share their side\'s rating change', () => {
+  const ratings = EloRatingService.calculateNewRatings([
+    member('a', 0, true), member('b', 0, true),
+    member('c', 1, false), member('d', 1, false)
+  ]);
+
+  const change = (userId: string) => ratings.get(userId)!.rating - 1500;
+  assert.ok(change('a') > 0);
+  assert.equal(change('a'), change('b'));
+  assert.equal(change('c'), change('d'));
+  assert.equal(change('a'), -change('c'));
+});
+
+test('less certain teammates take more of the change', () => {
+  const ratings = EloRatingService.calculateNewRatings([
+    member('veteran', 0, true, 1500, 60), member('newcomer', 0, true, 1500, 200),
+    member('c', 1, false), member('d', 1, false)
+  ]);
+
+  const veteran = ratings.get('veteran')!.rating - 1500;
+  const newcomer = ratings.get('newcomer')!.rating - 1500;
+  assert.ok(veteran > 0);
+  assert.ok(newcomer > veteran);
+});
@@ -1,80 +1,194 @@
-import { pool } from '../config/database';
+import { pool, Queryable } from '../config/database';
+import { BotPlayer } from '../games/BotPlayer';
+import { EloEngine } from '../ratings/EloEngine';
+import { Glicko2Engine } from '../ratings/Glicko2Engine';
+import { INITIAL_RATING, PlayerRating, RatedResult, RatingEngine } from '../ratings/RatingEngine';
 
-export interface GameResult {
-  userId: string;
-  result: 'win' | 'loss' | 'draw' | 'forfeit' | 'disconnect';
-  eloBefore: number;
+export type GameResult = RatedResult;
+
+export interface StoredRating extends PlayerRating {
+  gamesPlayed: number;
+  provisional: boolean;
+}
+
+export interface GameTypeRating extends StoredRating {
+  gameType: string;
+  matchType: 'casual' | 'ranked';
+  rank: number;
 }
 
+const RATING_ENGINES: Record<string, () => RatingEngine> = {
+  elo: () => new EloEngine(),
+  glicko2: () => new Glicko2Engine()
+};
+
 export class EloRatingService {
-  private static readonly K_FACTOR = 32; // ELO K-factor
-  private static readonly BASE_RATING = 1000;
+  // RATING_ENGINE=elo switches back to fixed-K ELO; Glicko-2 otherwise
+  static readonly engine: RatingEngine = (RATING_ENGINES[process.env.RATING_ENGINE ?? ''] ?? RATING_ENGINES.glicko2)();
+  private static readonly PROVISIONAL_DEVIATION = 110; // ratings less certain than this are provisional
+  private static readonly RATING_PERIOD_DAYS = 7; // idle time that counts as one missed rating period
 
-  // Calculate new ELO ratings for match participants
-  static calculateNewRatings(results: GameResult[]): Map<string, number> {
-    const newRatings = new Map<string, number>();
-    
-    if (results.length === 2) {
-      // 1v1 match
-      const [player1, player2] = results;
-      const expectedScore1 = this.getExpectedScore(player1.eloBefore, player2.eloBefore);
-      const expectedScore2 = this.getExpectedScore(player2.eloBefore, player1.eloBefore);
-      
-      const actualScore1 = this.getActualScore(player1.result, player2.result);
-      const actualScore2 = this.getActualScore(player2.result, player1.result);
-      
-      const newRating1 = Math.round(player1.eloBefore + this.K_FACTOR * (actualScore1 - expectedScore1));
-      const newRating2 = Math.round(player2.eloBefore + this.K_FACTOR * (actualScore2 - expectedScore2));
-      
-      newRatings.set(player1.userId, Math.max(500, newRating1)); // Minimum rating of 500
-      newRatings.set(player2.userId, Math.max(500, newRating2));
-    } else {
-      // Multi-player (future expansion)
-      // For now, implement basic rating changes
-      const winners = results.filter(r => r.result === 'win');
-      const losers = results.filter(r => r.result === 'loss' || r.result === 'forfeit' || r.result === 'disconnect');
-      
-      winners.forEach(winner => {
-        const change = Math.round(this.K_FACTOR * 0.6); // Reduced gain for multiplayer
-        newRatings.set(winner.userId, Math.max(500, winner.eloBefore + change));
-      });
-      
-      losers.forEach(loser => {
-        const change = Math.round(this.K_FACTOR * 0.4); // Reduced loss for multiplayer
-        newRatings.set(loser.userId, Math.max(500, loser.eloBefore - change));
-      });
+  // Calculate new ratings for match participants
+  static calculateNewRatings(results: GameResult[]): Map<string, PlayerRating> {
+    // Games against bots are practice and never move anyone's rating
+    if (results.some(result => BotPlayer.isBot(result.userId))) {
+      return new Map();
+    }
+    if (results.some(result => result.team !== undefined)) {
+      return this.calculateTeamRatings(results);
+    }
+
+    return this.engine.calculate(results);
+  }
+
+  // Each side is rated as one player on its members' average rating. The side's change is then shared
+  // out by how uncertain each member's rating is: newer players move more, the average moves as the side did.
+  private static calculateTeamRatings(results: GameResult[]): Map<string, PlayerRating> {
+    const sides = new Map<string, GameResult[]>();
+    for (const result of results) {
+      const side = result.team !== undefined ? `team:${result.team}` : result.userId;
+      sides.set(side, [...(sides.get(side) ?? []), result]);
+    }
+
+    const sideResults: GameResult[] = Array.from(sides, ([side, members]) => ({
+      ...this.combineRatings(members),
+      userId: side,
+      result: members[0].result,
+      placement: Math.min(...members.map(m => m.placement))
+    }));
+    const sideRatings = this.engine.calculate(sideResults);
+
+    const newRatings = new Map<string, PlayerRating>();
+    for (const side of sideResults) {
+      const rated = sideRatings.get(side.userId);
+      if (!rated) continue;
+
+      for (const member of sides.get(side.userId)!) {
+        const share = member.deviation ** 2 / side.deviation ** 2;
+        newRatings.set(member.userId, {
+          rating: Math.round(member.rating + (rated.rating - side.rating) * share),
+          deviation: member.deviation * (rated.deviation / side.deviation),
+          volatility: member.volatility + (rated.volatility - side.volatility)
+        });
+      }
     }
-    
     return newRatings;
   }
 
-  // Get expected score using ELO formula
-  private static getExpectedScore(playerRating: number, opponentRating: number): number {
-    return 1 / (1 + Math.pow(10, (opponentRating - playerRating) / 400));
+  // One rating standing for a group of players: their average rating, with the deviation of that average
+  static combineRatings(ratings: PlayerRating[]): PlayerRating {
+    return {
+      rating: this.average(ratings.map(r => r.rating)),
+      deviation: Math.sqrt(this.average(ratings.map(r => r.deviation ** 2))),
+      volatility: this.average(ratings.map(r => r.volatility))
+    };
   }
 
-  // Convert game result to score
-  private static getActualScore(playerResult: string, opponentResult: string): number {
-    if (playerResult === 'win') return 1;
-    if (playerResult === 'loss' || playerResult === 'forfeit' || playerResult === 'disconnect') return 0;
-    if (playerResult === 'draw') return 0.5;
-    return 0;
+  private static average(values: number[]): number {
+    return values.reduce((sum, value) => sum + value, 0) / values.length;
   }
 
-  // Update player ratings in database
-  static async updatePlayerRatings(sessionId: string, newRatings: Map<string, number>): Promise<void> {
-    const client = await pool.connect();
-    
-    try {
-      await client.query('BEGIN');
-      
-      for (const [userId, newRating] of newRatings) {
+  static expectedScore(a: PlayerRating, b: PlayerRating): number {
+    return this.engine.expectedScore(a, b);
+  }
+
+  static isProvisional(deviation: number): boolean {
+    return deviation > this.PROVISIONAL_DEVIATION;
+  }
+
+  // A player's rating for one game type and match type; one they never played starts from their overall rating
+  static async getRating(
+    userId: string,
+    gameType: string,
+    matchType: 'casual' | 'ranked',
+    client: Queryable = pool
+  ): Promise<StoredRating> {
+    const result = await client.query(
+      `SELECT pr.rating, pr.deviation, pr.volatility, pr.games_played,
+              EXTRACT(EPOCH FROM NOW() - pr.last_rated_at) AS idle_seconds, us.elo_rating
+       FROM users u
+       LEFT JOIN player_ratings pr ON pr.user_id = u.id AND pr.game_type = $2 AND pr.match_type = $3
+       LEFT JOIN user_statistics us ON us.user_id = u.id
+       WHERE u.id = $1`,
+      [userId, gameType, matchType]
+    );
+    const row = result.rows[0];
+
+    if (row?.rating == null) {
+      return {
+        ...INITIAL_RATING,
+        rating: row?.elo_rating ?? INITIAL_RATING.rating,
+        gamesPlayed: 0,
+        provisional: true
+      };
+    }
+
+    return this.toStoredRating(row);
+  }
+
+  // Every rating a player holds, with their rank among players of the same game and match type
+  static async getUserRatings(userId: string): Promise<GameTypeRating[]> {
+    const result = await pool.query(
+      `SELECT * FROM (
+         SELECT pr.*, EXTRACT(EPOCH FROM NOW() - pr.last_rated_at) AS idle_seconds,
+                RANK() OVER (PARTITION BY pr.game_type, pr.match_type ORDER BY pr.rating DESC) AS rank
+         FROM player_ratings pr
+         JOIN users u ON pr.user_id = u.id
+         WHERE u.is_active = true AND pr.games_played > 0
+       ) ranked
+       WHERE user_id = $1
+       ORDER BY game_type, match_type`,
+      [userId]
+    );
+
+    return result.rows.map((row: any) => ({
+      ...this.toStoredRating(row),
+      gameType: row.game_type,
+      matchType: row.match_type,
+      rank: parseInt(row.rank)
+    }));
+  }
+
+  // Deviation grows back for every rating period the player sat out
+  private static toStoredRating(row: any): StoredRating {
+    const idlePeriods = Math.floor((parseFloat(row.idle_seconds) || 0) / (this.RATING_PERIOD_DAYS * 24 * 60 * 60));
+    const rating = this.engine.inactive(
+      { rating: row.rating, deviation: row.deviation, volatility: row.volatility },
+      idlePeriods
+    );
+    return { ...rating, gamesPlayed: row.games_played, provisional: this.isProvisional(rating.deviation) };
+  }
+
+  // Update player ratings in database; runs inside the caller's transaction
+  static async updatePlayerRatings(
+    client: Queryable,
+    sessionId: string,
+    gameType: string,
+    matchType: 'casual' | 'ranked',
+    newRatings: Map<string, PlayerRating>
+  ): Promise<void> {
+    for (const [userId, rated] of newRatings) {
+      const newRating = rated.rating;
+      await client.query(
+        `INSERT INTO player_ratings (user_id, game_type, match_type, rating, deviation, volatility, games_played, last_rated_at)
+         VALUES ($1, $2, $3, $4, $5, $6, 1, NOW())
+         ON CONFLICT (user_id, game_type, match_type) DO UPDATE SET
+           rating = EXCLUDED.rating,
+           deviation = EXCLUDED.deviation,
+           volatility = EXCLUDED.volatility,
+           games_played = player_ratings.games_played + 1,
+           last_rated_at = NOW()`,
+        [userId, gameType, matchType, newRating, rated.deviation, rated.volatility]
+      );
+
+      // The headline elo_rating and peak follow ranked play only
+      if (matchType === 'ranked') {
         // Get current stats
         const currentStats = await client.query(
           'SELECT * FROM user_statistics WHERE user_id = $1',
           [userId]
         );
-        
+      
         if (currentStats.rows.length === 0) {
           // Create initial stats
           await client.query(
@@ -85,7 +199,7 @@ export class EloRatingService {
         } else {
           const stats = currentStats.rows[0];
           const peakRating = Math.max(stats.peak_rating, newRating);
-          
+        
           await client.query(
             `UPDATE user_statistics 
              SET elo_rating = $1, peak_rating = $2, updated_at = NOW()
@@ -93,39 +207,34 @@ export class EloRatingService {
             [newRating, peakRating, userId]
           );
         }
-        
-        // Update game participant record
-        const eloBefore = await client.query(
-          'SELECT elo_before FROM game_participants WHERE session_id = $1 AND user_id = $2',
-          [sessionId, userId]
-        );
-        
-        if (eloBefore.rows.length > 0) {
-          const eloChange = newRating - eloBefore.rows[0].elo_before;
-          
-          await client.query(
-            `UPDATE game_participants 
-             SET elo_after = $1, elo_change = $2 
-             WHERE session_id = $3 AND user_id = $4`,
-            [newRating, eloChange, sessionId, userId]
-          );
-        }
       }
       
-      await client.query('COMMIT');
-      console.log('Player ratings updated successfully');
+      // Update game participant record
+      const eloBefore = await client.query(
+        'SELECT elo_before FROM game_participants WHERE session_id = $1 AND user_id = $2',
+        [sessionId, userId]
+      );
       
-    } catch (error) {
-      await client.query('ROLLBACK');
-      console.error('Error updating player ratings:', error);
-      throw error;
-    } finally {
-      client.release();
+      if (eloBefore.rows.length > 0) {
+        const eloChange = newRating - eloBefore.rows[0].elo_before;
+        
+        await client.query(
+          `UPDATE game_participants 
+           SET elo_after = $1, elo_change = $2 
+           WHERE session_id = $3 AND user_id = $4`,
+          [newRating, eloChange, sessionId, userId]
+        );
+      }
     }
   }
 
   // Get player's rating history
-  static async getRatingHistory(userId: string, gameType?: string, limit: number = 20): Promise<any[]> {
+  static async getRatingHistory(
+    userId: string,
+    gameType?: string,
+    matchType: 'casual' | 'ranked' = 'ranked',
+    limit: number = 20
+  ): Promise<any[]> {
     let query = `
       SELECT 
         mh.created_at,
@@ -137,13 +246,13 @@ export class EloRatingService {
         gs.room_code
       FROM match_history mh
       JOIN game_sessions gs ON mh.session_id = gs.id
-      WHERE mh.user_id = $1
+      WHERE mh.user_id = $1 AND mh.match_type = $2
     `;
     
-    const params: any[] = [userId];
+    const params: any[] = [userId, matchType];
     
     if (gameType) {
-      query += ' AND mh.game_type = $2';
+      query += ' AND mh.game_type = $3';
       params.push(gameType);
     }
     
@@ -154,8 +263,12 @@ export class EloRatingService {
     return result.rows;
   }
 
-  // Get leaderboard
-  static async getLeaderboard(gameType?: string, limit: number = 100): Promise<any[]> {
+  // Get leaderboard; a game type is ranked by its own rating for the given match type
+  static async getLeaderboard(
+    gameType?: string,
+    matchType: 'casual' | 'ranked' = 'ranked',
+    limit: number = 100
+  ): Promise<any[]> {
     let query = `
       SELECT 
         u.username,
@@ -180,17 +293,19 @@ export class EloRatingService {
           gts.losses,
           gts.games_played,
           (gts.wins::float / GREATEST(gts.games_played, 1) * 100)::integer as win_rate,
-          us.elo_rating,
-          RANK() OVER (ORDER BY us.elo_rating DESC) as rank
-        FROM game_type_stats gts
-        JOIN users u ON gts.user_id = u.id
-        JOIN user_statistics us ON gts.user_id = us.user_id
-        WHERE u.is_active = true AND gts.game_type = $1 AND gts.games_played > 0
+          pr.rating as elo_rating,
+          pr.deviation,
+          pr.games_played as rated_games,
+          RANK() OVER (ORDER BY pr.rating DESC) as rank
+        FROM player_ratings pr
+        JOIN users u ON pr.user_id = u.id
+        JOIN game_type_stats gts ON gts.user_id = pr.user_id AND gts.game_type = pr.game_type
+        WHERE u.is_active = true AND pr.game_type = $1 AND pr.match_type = $2 AND pr.games_played > 0
       `;
     }
     
-    query += ` ORDER BY elo_rating DESC LIMIT $${gameType ? '2' : '1'}`;
-    const params = gameType ? [gameType, limit] : [limit];
+    query += ` ORDER BY elo_rating DESC LIMIT $${gameType ? '3' : '1'}`;
+    const params = gameType ? [gameType, matchType, limit] : [limit];
     
     const result = await pool.query(query, params);
     return result.rows;
@@ -0,0 +1,967 @@
+import { Server } from 'socket.io';
+import { redis } from '../config/database';
+import { BaseGame, GameResult, GameSnapshot, Player } from '../games/BaseGame';
+import { GameFactory } from '../games/GameFactory';
+import { GameRegistry } from '../games/GameRegistry';
+import { BotDifficulty, BotPlayer } from '../games/BotPlayer';
+import { GameTypeModel } from '../models/GameType';
+import { GameSessionModel } from '../models/GameSession';
+import { PostGameService } from './PostGameService';
+import { EloRatingService, StoredRating } from './EloRatingService';
+import { GameMoveModel } from '../models/GameMove';
+import { v4 as uuidv4 } from 'uuid';
+
+export interface ActiveSession {
+  sessionId: string;
+  roomCode: string;
+  gameType: string;
+  matchType: 'casual' | 'ranked';
+  players: Player[];
+  game: BaseGame;
+  rematchRequests: Set<string>;
+  spectators: Map<string, string>; // userId -> username, watching read-only
+  bots: BotPlayer[];
+  dbWrites: Promise<void>; // game_sessions/game_moves writes run one after another
+  pendingTakeback?: {
+    requesterId: string;
+    timer: NodeJS.Timeout;
+  };
+}
+
+// A private room gathering its players by room code; it becomes a session once every seat is taken
+interface PrivateRoom {
+  sessionId: string;
+  roomCode: string;
+  gameType: string;
+  maxPlayers: number;
+  teamSize: number | null; // players per side, or null when everyone plays for themselves
+  players: Player[];
+}
+
+// What gets written to Redis for each running session
+interface StoredSession {
+  sessionId: string;
+  roomCode: string;
+  gameType: string;
+  matchType: 'casual' | 'ranked';
+  game: GameSnapshot;
+}
+
+export class GameSessionService {
+  private static io: Server | null = null;
+  private static readonly FINISHED_SESSION_TTL = 60000; // keep finished games around for rematches
+  private static readonly TAKEBACK_TIMEOUT = 15000; // opponent has this long to answer a takeback request
+  private static readonly SNAPSHOT_TTL = 24 * 60 * 60; // seconds; abandoned snapshots expire after a day
+  private static readonly ACTIVE_SESSIONS_KEY = 'game:active';
+  private static readonly CHAT_MAX_LENGTH = 500;
+  private static sessions = new Map<string, ActiveSession>();
+  private static playerSessions = new Map<string, string>(); // userId -> sessionId
+  private static spectatorSessions = new Map<string, string>(); // userId -> sessionId being watched
+  private static cleanupTimers = new Map<string, NodeJS.Timeout>();
+  private static privateRooms = new Map<string, PrivateRoom>(); // roomCode -> room still waiting for players
+  private static playerRooms = new Map<string, string>(); // userId -> roomCode of the private room they wait in
+
+  // Initialize the service with the Socket.IO server instance
+  static init(ioInstance: Server): void {
+    this.io = ioInstance;
+    console.log('[GAME] Session service initialized.');
+  }
+
+  // Create the game for a formed match and move its players into the session room
+  static async startSession(
+    sessionId: string,
+    roomCode: string,
+    gameType: string,
+    matchType: 'casual' | 'ranked',
+    matchedPlayers: Player[]
+  ): Promise<ActiveSession> {
+    if (matchType === 'ranked' && matchedPlayers.some(p => p.isBot)) {
+      throw new Error('Bots cannot play ranked matches');
+    }
+
+    // Team games alternate sides; everyone else keeps the order they were matched in
+    const players = BaseGame.seatTeams(matchedPlayers);
+
+    const configurations = await GameTypeModel.getConfigurations(gameType);
+    const game = GameFactory.createGame(sessionId, gameType, players, configurations);
+
+    const session: ActiveSession = {
+      sessionId,
+      roomCode,
+      gameType,
+      matchType,
+      players,
+      game,
+      rematchRequests: new Set(),
+      spectators: new Map(),
+      bots: [],
+      dbWrites: Promise.resolve()
+    };
+
+    const averageElo = Math.round(players.reduce((sum, p) => sum + p.elo, 0) / players.length);
+    this.queueWrite(session, 'record session', async () => {
+      await GameSessionModel.createForMatch(
+        sessionId, roomCode, gameType, matchType, players.length, players[0].id, game.getConfig(), averageElo
+      );
+      for (const [index, player] of players.entries()) {
+        await GameSessionModel.addPlayer(sessionId, player.id, index + 1, player.elo, player.team ?? null);
+      }
+    });
+
+    this.sessions.set(sessionId, session);
+    // Bots have no socket and can sit in any number of games at once, so they are not mapped
+    for (const player of players.filter(p => !p.isBot)) {
+      await this.stopSpectating(player.id);
+      const previousSessionId = this.playerSessions.get(player.id);
+      if (previousSessionId && previousSessionId !== sessionId) {
+        this.leaveSocketRoom(player.id, previousSessionId);
+      }
+      this.playerSessions.set(player.id, sessionId);
+      this.joinSocketRoom(player.id, sessionId);
+    }
+
+    this.attachGameListeners(session);
+    session.bots = players.filter(p => p.isBot).map(p => BotPlayer.attach(game, p));
+    game.start();
+
+    console.log(`[GAME] Started ${gameType} session ${sessionId} (${roomCode}): ${players.map(p => p.username).join(' vs ')}`);
+    return session;
+  }
+
+  // Resume every game that was still running when the previous process stopped
+  static async rehydrate(): Promise<void> {
+    const sessionIds = await redis.sMembers(this.ACTIVE_SESSIONS_KEY);
+    let restored = 0;
+
+    for (const sessionId of sessionIds) {
+      try {
+        const raw = await redis.get(this.snapshotKey(sessionId));
+        if (!raw) {
+          await redis.sRem(this.ACTIVE_SESSIONS_KEY, sessionId);
+          await this.recordCancelled(sessionId);
+          continue;
+        }
+
+        const stored: StoredSession = JSON.parse(raw);
+        const game = BaseGame.restore(stored.game);
+        const { status, result } = game.getGameState();
+        if (status !== 'playing') {
+          await this.discardSnapshot(sessionId);
+          // The process stopped before the finished game reached the database
+          if (result) {
+            await PostGameService.recordGame({
+              sessionId,
+              gameType: stored.gameType,
+              matchType: stored.matchType,
+              players: stored.game.players,
+              result
+            }).catch(error => console.error(`[GAME] Failed to record result for session ${sessionId}:`, error));
+          }
+          continue;
+        }
+
+        const session: ActiveSession = {
+          sessionId,
+          roomCode: stored.roomCode,
+          gameType: stored.gameType,
+          matchType: stored.matchType,
+          players: stored.game.players,
+          game,
+          rematchRequests: new Set(),
+          spectators: new Map(),
+          bots: [],
+          dbWrites: Promise.resolve()
+        };
+
+        const humans = session.players.filter(p => !p.isBot);
+        this.sessions.set(sessionId, session);
+        for (const player of humans) {
+          this.playerSessions.set(player.id, sessionId);
+        }
+        this.attachGameListeners(session);
+        session.bots = session.players.filter(p => p.isBot).map(p => BotPlayer.attach(game, p));
+
+        // Nobody is connected to a fresh process; the usual reconnect window applies, and a game
+        // nobody comes back to is abandoned. Takeback requests are not restored, they expire within seconds
+        for (const player of humans) {
+          game.playerDisconnected(player.id);
+        }
+        restored++;
+      } catch (error) {
+        console.error(`[GAME] Failed to restore session ${sessionId}:`, error);
+        await this.discardSnapshot(sessionId);
+        await this.recordCancelled(sessionId);
+      }
+    }
+
+    console.log(`[GAME] Restored ${restored} in-progress session(s) from Redis`);
+  }
+
+  // Checkpoint every running game, so the clocks are current when the process exits
+  static async persistAll(): Promise<void> {
+    for (const session of this.sessions.values()) {
+      if (session.game.getGameState().status === 'playing') {
+        await this.persistSession(session);
+      }
+    }
+  }
+
+  // Casual game against a server-side bot; the human's socket gets the match before the game starts
+  static async startBotGame(
+    userId: string,
+    username: string,
+    socketId: string,
+    gameType: string,
+    difficulty: BotDifficulty
+  ): Promise<ActiveSession> {
+    if (!BotPlayer.supports(gameType)) {
+      throw new Error(`No computer opponent available for ${gameType}`);
+    }
+    if (this.getSessionForPlayer(userId)?.game.getGameState().status === 'playing') {
+      throw new Error('Finish your current game first');
+    }
+
+    // Bot games are casual, so the human is seated with their casual rating for this game
+    const { rating } = await EloRatingService.getRating(userId, gameType, 'casual');
+
+    // Random seat order, so the bot moves first half of the time
+    const players: Player[] = [
+      { id: userId, username, socketId, elo: rating, isConnected: true },
+      BotPlayer.createPlayer(difficulty)
+    ].sort(() => Math.random() - 0.5);
+
+    const sessionId = uuidv4();
+    const roomCode = this.generateRoomCode();
+    this.io?.to(socketId).emit('match-accepted', {
+      sessionId,
+      roomCode,
+      gameType,
+      matchType: 'casual',
+      players: players.map(p => ({ id: p.id, username: p.username, elo: p.elo, isBot: !!p.isBot })),
+      spectatorCount: 0
+    });
+
+    console.log(`[GAME] ${username} is playing ${gameType} against the ${difficulty} bot`);
+    return this.startSession(sessionId, roomCode, gameType, 'casual', players);
+  }
+
+  // Open a private room that friends join by its code; nothing is stored until the game starts.
+  // Players pick their own opponents here, so private games are always casual.
+  static async createPrivateRoom(userId: string, username: string, gameType: string): Promise<any> {
+    const definition = GameRegistry.get(gameType);
+    if (!definition) {
+      throw new Error(`Unsupported game type: ${gameType}`);
+    }
+    if (this.getSessionForPlayer(userId)?.game.getGameState().status === 'playing') {
+      throw new Error('Finish your current game first');
+    }
+    const rating = await EloRatingService.getRating(userId, gameType, 'casual');
+
+    this.leavePrivateRoom(userId);
+    let roomCode = this.generateRoomCode();
+    while (this.privateRooms.has(roomCode) || this.findSessionByRoomCode(roomCode)) {
+      roomCode = this.generateRoomCode();
+    }
+
+    const room: PrivateRoom = {
+      sessionId: uuidv4(),
+      roomCode,
+      gameType,
+      maxPlayers: definition.maxPlayers,
+      teamSize: definition.teamSize ?? null,
+      players: []
+    };
+    this.privateRooms.set(roomCode, room);
+    this.seatInPrivateRoom(room, userId, username, rating);
+
+    const payload = this.getRoomPayload(room);
+    this.io?.to(this.userRoom(userId)).emit('room-created', payload);
+    console.log(`[GAME] ${username} created private ${gameType} room ${roomCode}`);
+    return payload;
+  }
+
+  // Take a seat in a private room; the game starts as soon as the last seat is filled
+  static async joinPrivateRoom(userId: string, username: string, roomCode: string): Promise<any> {
+    const code = roomCode?.trim().toUpperCase();
+    const gameType = code ? this.privateRooms.get(code)?.gameType : undefined;
+    const rating = gameType ? await EloRatingService.getRating(userId, gameType, 'casual') : null;
+
+    // Looked up again after the rating read, so the checks and the seating happen without a gap
+    const room = code ? this.privateRooms.get(code) : undefined;
+    if (!room || !rating) {
+      throw new Error(this.findSessionByRoomCode(code) ? 'That game has already started' : 'Room not found');
+    }
+    if (this.getSessionForPlayer(userId)?.game.getGameState().status === 'playing') {
+      throw new Error('Finish your current game first');
+    }
+
+    if (!room.players.some(p => p.id === userId)) {
+      if (room.players.length >= room.maxPlayers) {
+        throw new Error('Room is full');
+      }
+      this.leavePrivateRoom(userId);
+      this.seatInPrivateRoom(room, userId, username, rating);
+      this.io?.to(room.sessionId).except(this.userRoom(userId)).emit('player-joined', { players: this.getRoomPayload(room).players });
+    }
+
+    const payload = this.getRoomPayload(room);
+    this.io?.to(this.userRoom(userId)).emit('room-joined', payload);
+    console.log(`[GAME] ${username} joined private room ${room.roomCode} (${room.players.length}/${room.maxPlayers})`);
+
+    if (room.players.length === room.maxPlayers) {
+      this.privateRooms.delete(room.roomCode);
+      for (const player of room.players) {
+        this.playerRooms.delete(player.id);
+      }
+      await this.startSession(room.sessionId, room.roomCode, room.gameType, 'casual', room.players);
+    }
+    return payload;
+  }
+
+  // Give up a seat in a private room that has not started; the room closes when its last player leaves
+  static leavePrivateRoom(userId: string): void {
+    const roomCode = this.playerRooms.get(userId);
+    const room = roomCode ? this.privateRooms.get(roomCode) : undefined;
+    this.playerRooms.delete(userId);
+    if (!room) return;
+
+    const player = room.players.find(p => p.id === userId);
+    room.players = room.players.filter(p => p.id !== userId);
+    this.leaveSocketRoom(userId, room.sessionId);
+
+    if (room.players.length === 0) {
+      this.privateRooms.delete(room.roomCode);
+      console.log(`[GAME] Private room ${room.roomCode} closed`);
+      return;
+    }
+    this.io?.to(room.sessionId).emit('player-left', {
+      players: this.getRoomPayload(room).players,
+      playerName: player?.username
+    });
+  }
+
+  // Apply a move sent by a player; the game itself decides whether it is legal
+  static makeMove(userId: string, moveData: any): boolean {
+    const session = this.getSessionForPlayer(userId);
+    if (!session) return false;
+
+    return session.game.makeMove(userId, moveData);
+  }
+
+  static getLegalMoves(userId: string): any[] {
+    const session = this.getSessionForPlayer(userId);
+    if (!session) return [];
+
+    return session.game.getLegalMoves(userId);
+  }
+
+  static forfeit(userId: string): void {
+    const session = this.getSessionForPlayer(userId);
+    if (!session) return;
+
+    session.game.playerForfeit(userId);
+  }
+
+  // Ask the opponent to undo the requester's last turn; only allowed in casual games
+  static requestTakeback(userId: string): void {
+    const session = this.getSessionForPlayer(userId);
+    if (!session || session.game.getGameState().status !== 'playing') {
+      throw new Error('No game in progress');
+    }
+    if (session.matchType === 'ranked') {
+      throw new Error('Takebacks are disabled in ranked matches');
+    }
+    if (session.pendingTakeback) {
+      throw new Error('A takeback request is already pending');
+    }
+
+    const moveCount = session.game.getTakebackLength(userId);
+    if (moveCount === 0) {
+      throw new Error('You have no move to take back');
+    }
+
+    const player = session.players.find(p => p.id === userId);
+    session.pendingTakeback = {
+      requesterId: userId,
+      timer: setTimeout(() => this.clearTakeback(session, 'expired'), this.TAKEBACK_TIMEOUT)
+    };
+
+    this.io?.to(session.sessionId).emit('takeback-requested', {
+      playerId: userId,
+      playerName: player?.username,
+      moveCount,
+      expiresIn: this.TAKEBACK_TIMEOUT
+    });
+
+    // Bots are practice partners and always let you take a move back
+    const bot = session.players.find(p => p.isBot);
+    if (bot) {
+      this.answerTakeback(session, bot.id, true);
+    }
+  }
+
+  static respondToTakeback(userId: string, accept: boolean): void {
+    const session = this.getSessionForPlayer(userId);
+    if (session) {
+      this.answerTakeback(session, userId, accept);
+    }
+  }
+
+  // The opponent's answer; the requester cannot approve their own request
+  private static answerTakeback(session: ActiveSession, userId: string, accept: boolean): void {
+    const pending = session.pendingTakeback;
+    if (!pending || pending.requesterId === userId) return;
+
+    if (!accept) {
+      this.clearTakeback(session, 'declined');
+      return;
+    }
+
+    this.clearTakeback(session);
+    session.game.takeback(pending.requesterId);
+  }
+
+  static offerDraw(userId: string): void {
+    const session = this.getSessionForPlayer(userId);
+    if (!session || !session.game.offerDraw(userId)) {
+      throw new Error('You cannot offer a draw right now');
+    }
+  }
+
+  static respondToDraw(userId: string, accept: boolean): void {
+    const session = this.getSessionForPlayer(userId);
+    session?.game.respondToDraw(userId, accept);
+  }
+
+  // Start a new game with the same players once every one of them asked for it
+  static async requestRematch(userId: string): Promise<void> {
+    const session = this.getSessionForPlayer(userId);
+    if (!session || session.game.getGameState().status !== 'finished') return;
+
+    const player = session.players.find(p => p.id === userId);
+    session.rematchRequests.add(userId);
+    session.players.filter(p => p.isBot).forEach(bot => session.rematchRequests.add(bot.id));
+    this.io?.to(session.sessionId).emit('rematch-requested', {
+      playerId: userId,
+      playerName: player?.username
+    });
+
+    if (session.rematchRequests.size < session.players.length) return;
+
+    // The rematch is a separate game with its own session id, so its moves are stored apart
+    const sessionId = uuidv4();
+    const roomCode = this.generateRoomCode();
+    this.io?.to(session.sessionId).emit('rematch-accepted', {
+      sessionId,
+      roomCode,
+      previousSessionId: session.sessionId
+    });
+    this.endSession(session.sessionId);
+
+    // The game just played moved everyone's rating, so the rematch is seated on fresh ones
+    const players: Player[] = [];
+    for (const player of session.players) {
+      if (player.isBot) {
+        players.push({ ...player, isConnected: true });
+        continue;
+      }
+      const rating = await EloRatingService.getRating(player.id, session.gameType, session.matchType);
+      players.push({
+        ...player,
+        elo: rating.rating,
+        provisional: session.matchType === 'ranked' && rating.provisional,
+        isConnected: true
+      });
+    }
+    await this.startSession(sessionId, roomCode, session.gameType, session.matchType, players);
+  }
+
+  // Watch a running game read-only. Spectators share the room broadcasts but never enter
+  // playerSessions, so every gameplay call they make finds no game to act on
+  static async spectate(
+    userId: string,
+    username: string,
+    socketId: string,
+    target: { sessionId?: string; roomCode?: string }
+  ): Promise<void> {
+    const session = target.sessionId
+      ? this.sessions.get(target.sessionId)
+      : this.findSessionByRoomCode(target.roomCode);
+    if (!session || session.game.getGameState().status !== 'playing') {
+      throw new Error('No game in progress for that room');
+    }
+    if (session.players.some(p => p.id === userId)) {
+      throw new Error('You are playing in this game');
+    }
+    if (this.getSessionForPlayer(userId)?.game.getGameState().status === 'playing') {
+      throw new Error('Finish your own game before watching another');
+    }
+
+    await this.stopSpectating(userId);
+    session.spectators.set(userId, username);
+    this.spectatorSessions.set(userId, session.sessionId);
+    this.io?.in(socketId).socketsJoin([session.sessionId, this.spectatorRoom(session.sessionId)]);
+
+    this.io?.to(socketId).emit('spectate-started', {
+      ...this.getMatchPayload(session),
+      gameState: this.toClientState(session.game)
+    });
+    this.broadcastSpectatorCount(session);
+    console.log(`[GAME] ${username} is watching session ${session.sessionId}`);
+  }
+
+  static async stopSpectating(userId: string): Promise<void> {
+    const sessionId = this.spectatorSessions.get(userId);
+    if (!sessionId) return;
+
+    this.spectatorSessions.delete(userId);
+    this.io?.in(this.userRoom(userId)).socketsLeave([sessionId, this.spectatorRoom(sessionId)]);
+
+    const session = this.sessions.get(sessionId);
+    if (session?.spectators.delete(userId)) {
+      this.broadcastSpectatorCount(session);
+    }
+  }
+
+  static isSpectating(userId: string): boolean {
+    return this.spectatorSessions.has(userId);
+  }
+
+  // Running games for the lobby's watch list
+  static getLiveSessions(): any[] {
+    return Array.from(this.sessions.values())
+      .filter(session => session.game.getGameState().status === 'playing')
+      .map(session => {
+        const state = session.game.getGameState();
+        return {
+          ...this.getMatchPayload(session),
+          moveCount: state.moves.length,
+          startedAt: state.startTime
+        };
+      });
+  }
+
+  // Players talk to the whole room; spectators only ever reach other spectators
+  static sendChat(userId: string, username: string, text: string): void {
+    const message = String(text ?? '').trim().slice(0, this.CHAT_MAX_LENGTH);
+    if (!message) return;
+
+    const watchedSessionId = this.spectatorSessions.get(userId);
+    const session = watchedSessionId ? undefined : this.getSessionForPlayer(userId);
+    if (!watchedSessionId && !session) {
+      throw new Error('You are not in a game');
+    }
+
+    const room = watchedSessionId ? this.spectatorRoom(watchedSessionId) : session!.sessionId;
+    this.io?.to(room).emit('chat-message', {
+      userId,
+      username,
+      message,
+      isSpectator: !!watchedSessionId,
+      timestamp: new Date().toISOString()
+    });
+  }
+
+  // Player left the game screen: forfeit if still playing and drop them from the room
+  static async leave(userId: string): Promise<void> {
+    this.leavePrivateRoom(userId);
+    const session = this.getSessionForPlayer(userId);
+    if (!session) return;
+
+    session.game.playerForfeit(userId);
+    this.leaveSocketRoom(userId, session.sessionId);
+    this.playerSessions.delete(userId);
+  }
+
+  static playerDisconnected(userId: string): void {
+    // A waiting room only starts with everyone online, so a dropped player gives up their seat
+    this.leavePrivateRoom(userId);
+    const session = this.getSessionForPlayer(userId);
+    if (!session) return;
+
+    session.game.playerDisconnected(userId);
+  }
+
+  // Re-attach a reconnecting socket to its running game and resend the current state
+  static async playerReconnected(userId: string, socketId: string): Promise<void> {
+    const session = this.getSessionForPlayer(userId);
+    if (!session || session.game.getGameState().status !== 'playing') return;
+
+    this.joinSocketRoom(userId, session.sessionId);
+    session.game.playerReconnected(userId, socketId);
+
+    this.io?.to(socketId).emit('match-accepted', this.getMatchPayload(session));
+    this.io?.to(socketId).emit('game-started', { gameState: this.toClientState(session.game) });
+
+    const drawOfferedBy = session.game.getDrawOfferPlayerId();
+    if (drawOfferedBy) {
+      const offerer = session.players.find(p => p.id === drawOfferedBy);
+      this.io?.to(socketId).emit('draw-offered', { playerId: drawOfferedBy, playerName: offerer?.username });
+    }
+  }
+
+  static getSessionForPlayer(userId: string): ActiveSession | undefined {
+    const sessionId = this.playerSessions.get(userId);
+    return sessionId ? this.sessions.get(sessionId) : undefined;
+  }
+
+  static getSession(sessionId: string): ActiveSession | undefined {
+    return this.sessions.get(sessionId);
+  }
+
+  static getMatchPayload(session: ActiveSession): any {
+    return {
+      sessionId: session.sessionId,
+      roomCode: session.roomCode,
+      gameType: session.gameType,
+      matchType: session.matchType,
+      players: session.players.map(p => ({
+        id: p.id,
+        username: p.username,
+        elo: p.elo,
+        isBot: !!p.isBot,
+        provisional: !!p.provisional,
+        team: p.team
+      })),
+      spectatorCount: session.spectators.size
+    };
+  }
+
+  private static getRoomPayload(room: PrivateRoom): any {
+    return {
+      sessionId: room.sessionId,
+      roomCode: room.roomCode,
+      gameType: room.gameType,
+      matchType: 'casual',
+      maxPlayers: room.maxPlayers,
+      status: 'waiting',
+      players: room.players.map(p => ({
+        id: p.id,
+        username: p.username,
+        elo: p.elo,
+        provisional: !!p.provisional,
+        team: p.team
+      }))
+    };
+  }
+
+  // Team games put each newcomer on the side with the fewest players
+  private static seatInPrivateRoom(room: PrivateRoom, userId: string, username: string, rating: StoredRating): void {
+    let team: number | undefined;
+    if (room.teamSize) {
+      const sideCount = room.maxPlayers / room.teamSize;
+      const sideSize = (side: number) => room.players.filter(p => p.team === side).length;
+      team = 0;
+      for (let side = 1; side < sideCount; side++) {
+        if (sideSize(side) < sideSize(team)) team = side;
+      }
+    }
+
+    room.players.push({
+      id: userId,
+      username,
+      elo: rating.rating,
+      isConnected: true,
+      team
+    });
+    this.playerRooms.set(userId, room.roomCode);
+    this.joinSocketRoom(userId, room.sessionId);
+  }
+
+  // Flatten BaseGame state into the shape the frontend boards consume
+  static toClientState(game: BaseGame): any {
+    const state = game.getGameState();
+    const currentPlayer = state.players[state.currentPlayerIndex];
+
+    return {
+      ...state.gameData,
+      gameId: state.gameId,
+      gameType: state.gameType,
+      players: state.players.map(p => ({ id: p.id, username: p.username, elo: p.elo, isConnected: p.isConnected })),
+      currentPlayer: currentPlayer?.id,
+      currentPlayerIndex: state.currentPlayerIndex,
+      status: state.status,
+      isFinished: state.status === 'finished',
+      winner: state.result?.winner ?? null,
+      moveCount: state.moves.length,
+      clocks: state.clocks
+    };
+  }
+
+  // GameResult carries scores as a Map, which does not survive JSON encoding
+  static serializeResult(result: GameResult): any {
+    return {
+      ...result,
+      scores: Object.fromEntries(result.scores)
+    };
+  }
+
+  private static attachGameListeners(session: ActiveSession): void {
+    const { game, sessionId } = session;
+
+    game.on('gameStarted', () => {
+      this.io?.to(sessionId).emit('game-started', { gameState: this.toClientState(game) });
+      this.persistSession(session);
+    });
+
+    game.on('moveMade', ({ move }) => {
+      // Playing on instead of answering counts as declining
+      this.clearTakeback(session, 'cancelled');
+
+      // gameEnded fires before moveMade on the final move and already dropped the snapshot
+      if (game.getGameState().status === 'playing') {
+        this.persistSession(session);
+      }
+      this.queueWrite(session, `record move ${move.moveNumber}`, () =>
+        GameMoveModel.create(sessionId, move.playerId, move.moveNumber, move.moveData, move.timestamp)
+      );
+
+      const player = session.players.find(p => p.id === move.playerId);
+      this.io?.to(sessionId).emit('move-made', {
+        move: { ...move, playerName: player?.username },
+        gameState: this.toClientState(game),
+        nextPlayer: game.getCurrentPlayer()
+      });
+    });
+
+    game.on('drawOffered', ({ playerId }) => {
+      const player = session.players.find(p => p.id === playerId);
+      this.io?.to(sessionId).emit('draw-offered', {
+        playerId,
+        playerName: player?.username
+      });
+    });
+
+    game.on('drawDeclined', ({ playerId, reason }) => {
+      this.io?.to(sessionId).emit('draw-declined', { playerId, reason });
+    });
+
+    game.on('movesUndone', ({ moves }) => {
+      this.queueWrite(session, 'remove undone moves', () =>
+        GameMoveModel.deleteFrom(sessionId, moves[0].moveNumber)
+      );
+      this.io?.to(sessionId).emit('takeback-accepted', {
+        moves,
+        gameState: this.toClientState(game),
+        nextPlayer: game.getCurrentPlayer()
+      });
+      this.persistSession(session);
+    });
+
+    game.on('gameEnded', ({ result }) => {
+      this.clearTakeback(session);
+      this.io?.to(sessionId).emit('game-ended', {
+        result: this.serializeResult(result),
+        stats: game.getGameStats(),
+        achievements: [],
+        gameState: this.toClientState(game)
+      });
+      console.log(`[GAME] Session ${sessionId} finished: ${result.endReason}`);
+      this.queueWrite(session, 'record result', async () => {
+        const changes = await PostGameService.recordGame({
+          sessionId,
+          gameType: session.gameType,
+          matchType: session.matchType,
+          players: session.players,
+          result
+        });
+        if (changes.length > 0) {
+          this.io?.to(sessionId).emit('elo-change', { sessionId, changes });
+        }
+      });
+      this.discardSnapshot(sessionId);
+      this.scheduleCleanup(sessionId);
+    });
+
+    // No player reconnected in time, so there is nobody left to give the result to
+    game.on('gameAbandoned', () => {
+      this.clearTakeback(session);
+      console.log(`[GAME] Session ${sessionId} abandoned: no player reconnected`);
+      this.queueWrite(session, 'cancel session', () => GameSessionModel.cancel(sessionId));
+      this.discardSnapshot(sessionId);
+      this.endSession(sessionId);
+      for (const player of session.players) {
+        if (this.playerSessions.get(player.id) === sessionId) {
+          this.playerSessions.delete(player.id);
+        }
+      }
+    });
+
+    game.on('playerDisconnected', ({ playerId }) => {
+      const player = session.players.find(p => p.id === playerId);
+      this.io?.to(sessionId).emit('player-disconnected', {
+        playerId,
+        playerName: player?.username
+      });
+    });
+
+    game.on('playerReconnected', ({ playerId }) => {
+      const player = session.players.find(p => p.id === playerId);
+      this.io?.to(sessionId).emit('player-reconnected', {
+        playerId,
+        playerName: player?.username
+      });
+    });
+  }
+
+  // Drop a pending takeback request; with a reason, tell the room it did not go through
+  private static clearTakeback(session: ActiveSession, reason?: 'declined' | 'expired' | 'cancelled'): void {
+    const pending = session.pendingTakeback;
+    if (!pending) return;
+
+    clearTimeout(pending.timer);
+    session.pendingTakeback = undefined;
+
+    if (reason) {
+      this.io?.to(session.sessionId).emit('takeback-declined', {
+        playerId: pending.requesterId,
+        reason
+      });
+    }
+  }
+
+  private static broadcastSpectatorCount(session: ActiveSession): void {
+    this.io?.to(session.sessionId).emit('spectator-count', {
+      sessionId: session.sessionId,
+      count: session.spectators.size
+    });
+  }
+
+  private static findSessionByRoomCode(roomCode?: string): ActiveSession | undefined {
+    const code = roomCode?.trim().toUpperCase();
+    if (!code) return undefined;
+
+    return Array.from(this.sessions.values()).find(session => session.roomCode === code);
+  }
+
+  private static scheduleCleanup(sessionId: string): void {
+    const existing = this.cleanupTimers.get(sessionId);
+    if (existing) clearTimeout(existing);
+
+    this.cleanupTimers.set(sessionId, setTimeout(async () => {
+      const session = this.sessions.get(sessionId);
+      if (!session) return;
+
+      this.endSession(sessionId);
+      for (const player of session.players) {
+        this.leaveSocketRoom(player.id, sessionId);
+        if (this.playerSessions.get(player.id) === sessionId) {
+          this.playerSessions.delete(player.id);
+        }
+      }
+    }, this.FINISHED_SESSION_TTL));
+  }
+
+  // Detach listeners and forget the game; player mappings are left to the caller
+  private static endSession(sessionId: string): void {
+    const timer = this.cleanupTimers.get(sessionId);
+    if (timer) {
+      clearTimeout(timer);
+      this.cleanupTimers.delete(sessionId);
+    }
+
+    const session = this.sessions.get(sessionId);
+    if (!session) return;
+
+    this.clearTakeback(session);
+    this.dropSpectators(session);
+    session.bots.forEach(bot => bot.stop());
+    session.game.removeAllListeners();
+    this.sessions.delete(sessionId);
+  }
+
+  private static dropSpectators(session: ActiveSession): void {
+    for (const userId of session.spectators.keys()) {
+      if (this.spectatorSessions.get(userId) === session.sessionId) {
+        this.spectatorSessions.delete(userId);
+      }
+    }
+    session.spectators.clear();
+
+    const room = this.spectatorRoom(session.sessionId);
+    this.io?.in(room).socketsLeave([session.sessionId, room]);
+  }
+
+  // Database failures are logged, never thrown: a game keeps running even if its history cannot be stored
+  private static queueWrite(session: ActiveSession, description: string, write: () => Promise<void>): void {
+    session.dbWrites = session.dbWrites
+      .then(write)
+      .catch(error => console.error(`[GAME] Failed to ${description} for session ${session.sessionId}:`, error));
+  }
+
+  // A game that cannot be resumed is closed off rather than left as playing forever
+  private static async recordCancelled(sessionId: string): Promise<void> {
+    try {
+      await GameSessionModel.cancel(sessionId);
+    } catch (error) {
+      console.error(`[GAME] Failed to cancel session ${sessionId}:`, error);
+    }
+  }
+
+  private static generateRoomCode(): string {
+    return Math.random().toString(36).substring(2, 8).toUpperCase();
+  }
+
+  // Every socket a user connects with joins this room, so it reaches them for as long as they are online
+  static userRoom(userId: string): string {
+    return `user:${userId}`;
+  }
+
+  // Asks every node through the Redis adapter, so a player connected elsewhere still counts as online
+  static async isOnline(userId: string): Promise<boolean> {
+    if (!this.io) return false;
+    const sockets = await this.io.in(this.userRoom(userId)).fetchSockets();
+    return sockets.length > 0;
+  }
+
+  private static spectatorRoom(sessionId: string): string {
+    return `${sessionId}:spectators`;
+  }
+
+  private static snapshotKey(sessionId: string): string {
+    return `game:snapshot:${sessionId}`;
+  }
+
+  // Failures are logged rather than thrown; a missed checkpoint only matters after a restart
+  private static async persistSession(session: ActiveSession): Promise<void> {
+    const stored: StoredSession = {
+      sessionId: session.sessionId,
+      roomCode: session.roomCode,
+      gameType: session.gameType,
+      matchType: session.matchType,
+      game: session.game.serialize()
+    };
+
+    try {
+      await redis.setEx(this.snapshotKey(session.sessionId), this.SNAPSHOT_TTL, JSON.stringify(stored));
+      await redis.sAdd(this.ACTIVE_SESSIONS_KEY, session.sessionId);
+    } catch (error) {
+      console.error(`[GAME] Failed to persist session ${session.sessionId}:`, error);
+    }
+  }
+
+  private static async discardSnapshot(sessionId: string): Promise<void> {
+    try {
+      await redis.del(this.snapshotKey(sessionId));
+      await redis.sRem(this.ACTIVE_SESSIONS_KEY, sessionId);
+    } catch (error) {
+      console.error(`[GAME] Failed to discard snapshot for session ${sessionId}:`, error);
+    }
+  }
+
+  private static joinSocketRoom(userId: string, sessionId: string): void {
+    this.io?.in(this.userRoom(userId)).socketsJoin(sessionId);
+  }
+
+  private static leaveSocketRoom(userId: string, sessionId: string): void {
+    this.io?.in(this.userRoom(userId)).socketsLeave(sessionId);
+  }
+
+  // Cleanup pending timers on shutdown
+  static cleanup(): void {
+    for (const timer of this.cleanupTimers.values()) {
+      clearTimeout(timer);
+    }
+    this.cleanupTimers.clear();
+  }
+}
@@ -0,0 +1,83 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { findMatches, QueueEntry } from './MatchmakingService';
+import { gameDefinition as connect4 } from '../games/connect4';
+import { gameDefinition as connect4teams } from '../games/connect4teams';
+
+let joinOrder = 0;
+function entry(userId: string, rating: number, extra: Partial<QueueEntry> = {}): QueueEntry {
+  return {
+    id: userId,
+    user_id: userId,
+    username: userId,
+    game_type: 'connect4',
+    match_type: 'ranked',
+    elo_rating: rating,
+    rating_deviation: 60,
+    joined_at: new Date(Date.now() - 1000 + joinOrder++),
+    preferences: {},
+    region: 'global',
+    ...extra
+  };
+}
+
+const ids = (match: QueueEntry[]) => match.map(e => e.user_id);
+
+test('ranked 1v1 pairs players within the rating tolerance', () => {
+  const matches = findMatches(
+    [entry('a', 1500), entry('b', 1900), entry('c', 1550), entry('d', 1950)],
+    connect4,
+    'ranked'
+  );
+  assert.deepEqual(matches.map(ids), [['a', 'c'], ['b', 'd']]);
+});
+
+test('ranked players too far apart wait for a closer opponent', () => {
+  assert.deepEqual(findMatches([entry('a', 1200), entry('b', 1800)], connect4, 'ranked'), []);
+});
+
+test('the rating tolerance widens the longer a player waits', () => {
+  const longWait = new Date(Date.now() - 10 * 60 * 1000);
+  assert.deepEqual(findMatches([entry('a', 1200, { joined_at: longWait }), entry('b', 1500)], connect4, 'ranked').map(ids), [['a', 'b']]);
+});
+
+test('casual matches ignore the rating gap', () => {
+  assert.deepEqual(findMatches([entry('a', 1200), entry('b', 1800)], connect4, 'casual').map(ids), [['a', 'b']]);
+});
+
+test('team games fill every side to the team size', () => {
+  const matches = findMatches(['a', 'b', 'c', 'd', 'e'].map(id => entry(id, 1500)), connect4teams, 'ranked');
+
+  assert.equal(matches.length, 1);
+  assert.deepEqual(matches[0].map(e => [e.user_id, e.team]), [['a', 0], ['b', 0], ['c', 1], ['d', 1]]);
+});
+
+test('parties larger than a side are never matched', () => {
+  const party = ['p1', 'p2', 'p3'].map(id => entry(id, 1500, { party_id: 'party' }));
+  assert.deepEqual(findMatches([...party, entry('solo', 1500)], connect4teams, 'casual'), []);
+});
+
+test('a party is kept together on one side', () => {
+  const matches = findMatches(
+    [
+      entry('solo1', 1500),
+      entry('p1', 1500, { party_id: 'party' }),
+      entry('solo2', 1500),
+      entry('p2', 1500, { party_id: 'party' })
+    ],
+    connect4teams,
+    'ranked'
+  );
+
+  assert.equal(matches.length, 1);
+  const teams = Object.fromEntries(matches[0].map(e => [e.user_id, e.team]));
+  assert.equal(teams.p1, teams.p2);
+  assert.equal(teams.solo1, teams.solo2);
+  assert.notEqual(teams.p1, teams.solo1);
+});
+
+test('a ranked party is matched on its combined rating', () => {
+  const party = [entry('p1', 1300, { party_id: 'party' }), entry('p2', 1700, { party_id: 'party' })];
+  const matches = findMatches([...party, entry('solo1', 1500), entry('solo2', 1500)], connect4teams, 'ranked');
+  assert.equal(matches.length, 1);
+});
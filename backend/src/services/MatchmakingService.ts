@@ -1,5 +1,13 @@
 import { pool, redis } from '../config/database';
 import { Server } from 'socket.io';
+import { v4 as uuidv4 } from 'uuid';
+import { Player } from '../games/BaseGame';
+import { GameDefinition, GameRegistry } from '../games/GameRegistry';
+import { BOT_ACCOUNTS, BOT_DIFFICULTIES, BotDifficulty, BotPlayer } from '../games/BotPlayer';
+import { INITIAL_RATING, PlayerRating } from '../ratings/RatingEngine';
+import { GameSessionService } from './GameSessionService';
+import { GameSessionModel } from '../models/GameSession';
+import { EloRatingService } from './EloRatingService';
 
 export interface QueueEntry {
   id: string;
@@ -8,10 +16,20 @@ export interface QueueEntry {
   game_type: string;
   match_type: 'casual' | 'ranked';
   elo_rating: number;
+  rating_deviation: number;
   joined_at: Date;
   preferences: any;
   region: string;
   socket_id?: string;
+  estimated_wait_seconds?: number | null; // estimate given when the player joined
+  party_id?: string | null; // party members are always matched onto the same side
+  team?: number; // side assigned by findMatches in team games
+}
+
+export interface BotOffer {
+  difficulty: BotDifficulty;
+  username: string;
+  elo: number;
 }
 
 export interface MatchResult {
@@ -20,13 +38,119 @@ export interface MatchResult {
   room_code: string;
 }
 
+// A formed match waiting for every player to confirm before the game starts. It is kept in Redis,
+// with the accepted player ids in a set beside it, so players on any node can answer it.
+interface PendingMatch {
+  match: MatchResult;
+  gameType: string;
+  matchType: 'casual' | 'ranked';
+}
+
+// Players who must end up on the same side: a queued party, or a single player
+interface QueueGroup {
+  entries: QueueEntry[];
+  rating: PlayerRating;
+  joinedAt: number; // epoch ms the earliest member joined
+}
+
+// Largest accepted gap between an even game (0.5) and the expected score of a ranked pairing, widened while waiting
+const MATCH_TOLERANCE = 0.14; // about 100 points between settled ratings
+const TOLERANCE_EXPANSION = 0.05;
+const EXPANSION_INTERVAL = 30000; // 30s
+
+// Groups are matched in the order they joined, each pulling in the earliest suitable groups after it.
+// Every side is filled to the game's team size, and a party is never split across sides.
+export function findMatches(players: QueueEntry[], definition: GameDefinition, matchType: string): QueueEntry[][] {
+  const teamSize = definition.teamSize ?? 1;
+  const sideCount = definition.maxPlayers / teamSize;
+  const sideSize = (side: QueueGroup[]) => side.reduce((size, group) => size + group.entries.length, 0);
+  const isFull = (sides: QueueGroup[][]) => sides.every(side => sideSize(side) === teamSize);
+
+  const matches: QueueEntry[][] = [];
+  const usedGroups = new Set<QueueGroup>();
+  const groups = groupParties(players).filter(group => group.entries.length <= teamSize);
+
+  for (const anchor of groups) {
+    if (usedGroups.has(anchor)) continue;
+
+    const sides: QueueGroup[][] = Array.from({ length: sideCount }, () => []);
+    sides[0].push(anchor);
+    const picked = new Set([anchor]);
+
+    for (const candidate of groups) {
+      if (isFull(sides)) break;
+      if (usedGroups.has(candidate) || picked.has(candidate)) continue;
+      if (!isGoodMatch(anchor, candidate, matchType)) continue;
+
+      const side = sides.find(s => sideSize(s) + candidate.entries.length <= teamSize);
+      if (side) {
+        side.push(candidate);
+        picked.add(candidate);
+      }
+    }
+
+    if (isFull(sides)) {
+      picked.forEach(group => usedGroups.add(group));
+      const match = sides.flatMap((side, team) =>
+        side.flatMap(group => group.entries.map(entry => (teamSize > 1 ? { ...entry, team } : entry)))
+      );
+      matches.push(match);
+      console.log(`[MATCHMAKING] Found match: ${sides.map(side => side.flatMap(g => g.entries.map(e => e.username)).join(' & ')).join(' vs ')}`);
+    }
+  }
+  return matches;
+}
+
+// Queued party members form one group on their combined rating; everyone else is a group of one
+function groupParties(players: QueueEntry[]): QueueGroup[] {
+  const parties = new Map<string, QueueEntry[]>();
+  for (const entry of players) {
+    const key = entry.party_id ?? entry.user_id;
+    parties.set(key, [...(parties.get(key) ?? []), entry]);
+  }
+
+  return Array.from(parties.values())
+    .map(entries => ({
+      entries,
+      rating: EloRatingService.combineRatings(entries.map(entry => toRating(entry))),
+      joinedAt: Math.min(...entries.map(entry => new Date(entry.joined_at).getTime()))
+    }))
+    .sort((a, b) => a.joinedAt - b.joinedAt);
+}
+
+// Check if two groups are a good match: judged on the expected score, so the same rating gap
+// is more acceptable between uncertain (provisional) ratings than between settled ones
+function isGoodMatch(anchor: QueueGroup, candidate: QueueGroup, matchType: string): boolean {
+  if (matchType === 'casual') return true;
+  const expected = EloRatingService.expectedScore(anchor.rating, candidate.rating);
+  const waitTime = Date.now() - anchor.joinedAt;
+  const tolerance = MATCH_TOLERANCE + Math.floor(waitTime / EXPANSION_INTERVAL) * TOLERANCE_EXPANSION;
+  return Math.abs(expected - 0.5) <= tolerance;
+}
+
+function toRating(entry: QueueEntry): PlayerRating {
+  return { rating: entry.elo_rating, deviation: entry.rating_deviation, volatility: INITIAL_RATING.volatility };
+}
+
 export class MatchmakingService {
   private static io: Server | null = null; // To hold the io instance
-  private static readonly ELO_THRESHOLD = 100;
-  private static readonly QUEUE_TIMEOUT = 300000; // 5 minutes
-  private static readonly EXPANSION_INTERVAL = 30000; // 30s
-  private static activeMatches = new Map<string, any>();
-  private static queueIntervals = new Map<string, NodeJS.Timeout>();
+  // Casual players waiting this long are offered a bot; BOT_BACKFILL_DELAY=0 turns offers off
+  private static readonly BOT_BACKFILL_DELAY = parseInt(process.env.BOT_BACKFILL_DELAY ?? '45', 10) * 1000;
+  // Wait estimates use the median of recent matches in the player's rating band
+  private static readonly ELO_BAND_SIZE = 200;
+  private static readonly WAIT_SAMPLE_SIZE = 50;
+  private static readonly MIN_BAND_SAMPLES = 5; // fewer than this and the whole queue's history is used
+  private static readonly DEFAULT_WAIT_ESTIMATE = 60; // seconds, when the queue has no history yet
+  private static readonly WAIT_ESTIMATE_CACHE_TTL = 30; // seconds
+  private static readonly READY_CHECK_TIMEOUT = 20000; // players have this long to accept a match
+  // Ready check keys outlive the timeout, so they still clear themselves if the node that started it goes down
+  private static readonly READY_CHECK_TTL = 2 * MatchmakingService.READY_CHECK_TIMEOUT;
+  private static readonly DECLINE_COOLDOWN = 60; // seconds a decliner is kept out of the queues
+  private static readonly LOCK_TTL = 10000; // ms; a lock left by a crashed node frees itself
+  private static readonly LOCK_RETRY_DELAY = 1000; // ms before retrying a queue another node is matching
+  private static queueRuns = new Map<string, { rerun: boolean }>(); // queues with a matchmaker loop running here
+  private static queueTimers = new Map<string, NodeJS.Timeout>(); // delayed re-runs per queue
+  private static readyCheckTimers = new Map<string, NodeJS.Timeout>(); // expiry of the ready checks this node started
 
   // Initialize the service with the Socket.IO server instance
   static init(ioInstance: Server): void {
@@ -39,35 +163,33 @@ export class MatchmakingService {
     userId: string,
     gameType: string,
     matchType: 'casual' | 'ranked' = 'casual',
-    socketId: string,
     preferences: any = {}
   ): Promise<void> {
     try {
       console.log(`[QUEUE] Adding player ${userId} to ${gameType} ${matchType} queue`);
+
+      if (!GameRegistry.has(gameType)) {
+        throw new Error(`Unsupported game type: ${gameType}`);
+      }
+      await this.checkCanQueue(userId);
       
-      const userStats = await this.getUserStats(userId);
-      const eloRating = matchType === 'ranked' ? (userStats?.elo_rating || 1000) : 1000;
+      // Casual and ranked queues each use the player's own rating for that kind of play
+      const rating = await EloRatingService.getRating(userId, gameType, matchType);
+      const eloRating = rating.rating;
 
       await this.removeFromAllQueues(userId);
 
+      const estimatedWait = await this.estimateWaitTime(gameType, matchType, eloRating);
       const query = `
-        INSERT INTO matchmaking_queue (user_id, game_type, match_type, elo_rating, preferences, region)
-        VALUES ($1, $2, $3, $4, $5, $6)
+        INSERT INTO matchmaking_queue (user_id, game_type, match_type, elo_rating, rating_deviation, preferences, region, estimated_wait_time)
+        VALUES ($1, $2, $3, $4, $5, $6, $7, make_interval(secs => $8))
       `;
-      await pool.query(query, [userId, gameType, matchType, eloRating, JSON.stringify(preferences), 'global']);
-      await redis.setEx(`socket:${userId}`, 300, socketId);
+      await pool.query(query, [
+        userId, gameType, matchType, eloRating, rating.deviation, JSON.stringify(preferences), 'global', estimatedWait
+      ]);
       
       console.log(`[QUEUE] Successfully added player ${userId} with ELO ${eloRating}`);
-
-      const queueKey = `${gameType}:${matchType}`;
-      if (!this.queueIntervals.has(queueKey)) {
-        const interval = setInterval(() => {
-          // No longer need to pass 'io', it's accessed via this.io
-          this.processQueue(gameType, matchType); 
-        }, 5000); 
-        this.queueIntervals.set(queueKey, interval);
-        console.log(`[QUEUE] Started matchmaking interval for ${queueKey}`);
-      }
+      this.requestMatchmaking(gameType, matchType);
       
     } catch (error) {
       console.error('[QUEUE] Error adding to queue:', error);
@@ -75,13 +197,126 @@ export class MatchmakingService {
     }
   }
 
-  // Remove player from all queues
-  static async removeFromAllQueues(userId: string): Promise<void> {
+  // The leader queues the whole party at once, so no matchmaking pass ever sees part of it.
+  // Parties play on one side, so they can only queue for team games with room for all of them.
+  static async addPartyToQueue(
+    partyId: string,
+    memberIds: string[],
+    gameType: string,
+    matchType: 'casual' | 'ranked' = 'casual'
+  ): Promise<void> {
+    const definition = GameRegistry.get(gameType);
+    if (!definition) {
+      throw new Error(`Unsupported game type: ${gameType}`);
+    }
+    const teamSize = definition.teamSize ?? 1;
+    if (memberIds.length > teamSize) {
+      throw new Error(teamSize === 1
+        ? `${definition.name} has no teams; your party of ${memberIds.length} can only queue for team games`
+        : `${definition.name} is played in teams of ${teamSize}; your party of ${memberIds.length} cannot queue for it`);
+    }
+
+    const ratings: PlayerRating[] = [];
+    for (const memberId of memberIds) {
+      await this.checkCanQueue(memberId);
+      if (!await GameSessionService.isOnline(memberId)) {
+        throw new Error('Every party member must be online to queue');
+      }
+      ratings.push(await EloRatingService.getRating(memberId, gameType, matchType));
+    }
+
+    for (const memberId of memberIds) {
+      await this.removeFromAllQueues(memberId);
+    }
+
+    // The party is matched on its combined rating, so that is what its wait is estimated from
+    const estimatedWait = await this.estimateWaitTime(gameType, matchType, EloRatingService.combineRatings(ratings).rating);
+    const client = await pool.connect();
     try {
-      const result = await pool.query('DELETE FROM matchmaking_queue WHERE user_id = $1', [userId]);
+      await client.query('BEGIN');
+      for (const [index, memberId] of memberIds.entries()) {
+        await client.query(
+          `INSERT INTO matchmaking_queue
+             (user_id, game_type, match_type, elo_rating, rating_deviation, preferences, region, estimated_wait_time, party_id)
+           VALUES ($1, $2, $3, $4, $5, $6, $7, make_interval(secs => $8), $9)`,
+          [memberId, gameType, matchType, ratings[index].rating, ratings[index].deviation, '{}', 'global', estimatedWait, partyId]
+        );
+      }
+      await client.query('COMMIT');
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+
+    console.log(`[QUEUE] Party ${partyId} (${memberIds.length} players) added to ${gameType} ${matchType} queue`);
+    this.requestMatchmaking(gameType, matchType);
+  }
+
+  // Enqueue and dequeue events call this; requests for a queue that is already being matched here
+  // are folded into one more pass of the running loop, so each queue has at most one loop per node
+  static requestMatchmaking(gameType: string, matchType: 'casual' | 'ranked'): void {
+    const queueKey = this.queueKey(gameType, matchType);
+    const run = this.queueRuns.get(queueKey);
+    if (run) {
+      run.rerun = true;
+      return;
+    }
+
+    this.queueRuns.set(queueKey, { rerun: false });
+    this.runMatchmaker(gameType, matchType).catch(error => {
+      console.error(`[MATCHMAKING] Matchmaker for ${queueKey} failed:`, error);
+    });
+  }
+
+  private static async runMatchmaker(gameType: string, matchType: 'casual' | 'ranked'): Promise<void> {
+    const queueKey = this.queueKey(gameType, matchType);
+    const run = this.queueRuns.get(queueKey)!;
+    try {
+      do {
+        run.rerun = false;
+        await this.processQueue(gameType, matchType);
+      } while (run.rerun);
+    } finally {
+      this.queueRuns.delete(queueKey);
+    }
+  }
+
+  private static scheduleMatchmaking(gameType: string, matchType: 'casual' | 'ranked', delay: number): void {
+    const queueKey = this.queueKey(gameType, matchType);
+    if (this.queueTimers.has(queueKey)) return;
+
+    this.queueTimers.set(queueKey, setTimeout(() => {
+      this.queueTimers.delete(queueKey);
+      this.requestMatchmaking(gameType, matchType);
+    }, delay));
+  }
+
+  // Remove player from all queues; a queued party only queues together, so the rest of it leaves too
+  static async removeFromAllQueues(userId: string, reason: 'left' | 'disconnected' = 'left'): Promise<void> {
+    try {
+      const result = await pool.query(
+        `DELETE FROM matchmaking_queue
+         WHERE user_id = $1
+            OR party_id IN (SELECT party_id FROM matchmaking_queue WHERE user_id = $1 AND party_id IS NOT NULL)
+         RETURNING user_id, game_type, match_type`,
+        [userId]
+      );
       if ((result.rowCount ?? 0) > 0) {
         console.log(`[QUEUE] Removed player ${userId} from all queues`);
       }
+
+      const queues = new Map<string, { game_type: string; match_type: 'casual' | 'ranked' }>();
+      for (const row of result.rows) {
+        queues.set(this.queueKey(row.game_type, row.match_type), row);
+        if (row.user_id !== userId) {
+          this.emitToUsers([row.user_id], 'queue-left', { reason: `party-member-${reason}`, userId });
+        }
+      }
+      for (const row of queues.values()) {
+        this.requestMatchmaking(row.game_type, row.match_type);
+      }
     } catch (error) {
       console.error('[QUEUE] Error removing from all queues:', error);
     }
@@ -91,7 +326,7 @@ export class MatchmakingService {
   private static async getQueuedPlayers(gameType: string, matchType: string): Promise<QueueEntry[]> {
     try {
       const query = `
-        SELECT mq.*, u.username 
+        SELECT mq.*, EXTRACT(EPOCH FROM mq.estimated_wait_time)::INTEGER AS estimated_wait_seconds, u.username 
         FROM matchmaking_queue mq
         JOIN users u ON mq.user_id = u.id
         WHERE mq.game_type = $1 AND mq.match_type = $2
@@ -101,143 +336,93 @@ export class MatchmakingService {
       const players = result.rows;
       
       const verifiedPlayers = [];
+      const removedParties = new Set<string>();
       for (const player of players) {
-        if (await redis.get(`socket:${player.user_id}`)) {
+        if (player.party_id && removedParties.has(player.party_id)) continue;
+
+        if (await GameSessionService.isOnline(player.user_id)) {
           verifiedPlayers.push(player);
         } else {
           console.log(`[QUEUE] Player ${player.username} has no active socket, removing.`);
-          await this.removeFromAllQueues(player.user_id);
+          await this.removeFromAllQueues(player.user_id, 'disconnected');
+          if (player.party_id) removedParties.add(player.party_id);
         }
       }
-      return verifiedPlayers;
+      // Party members verified before a missing one was found left the queue with them
+      return verifiedPlayers.filter(player => !player.party_id || !removedParties.has(player.party_id));
     } catch (error) {
       console.error('[QUEUE] Error getting queued players:', error);
       return [];
     }
   }
 
-  // Process queue to create matches
-  static async processQueue(gameType: string, matchType: 'casual' | 'ranked'): Promise<void> {
+  // Process queue to create matches; the Redis lock keeps every other node out of this queue meanwhile
+  private static async processQueue(gameType: string, matchType: 'casual' | 'ranked'): Promise<void> {
     if (!this.io) {
       console.error('[MATCHMAKING] Service not initialized. Cannot send notifications.');
       return;
     }
+
+    const queueKey = this.queueKey(gameType, matchType);
+    const lockToken = await this.acquireQueueLock(queueKey);
+    if (!lockToken) {
+      this.scheduleMatchmaking(gameType, matchType, this.LOCK_RETRY_DELAY);
+      return;
+    }
     
     try {
-      const gameConfig = await this.getGameConfig(gameType);
+      const gameConfig = this.getGameConfig(gameType);
       if (!gameConfig) return;
 
-      const requiredPlayers = gameConfig.max_players || 2;
+      const requiredPlayers = gameConfig.maxPlayers;
       const queuedPlayers = await this.getQueuedPlayers(gameType, matchType);
       
       if (queuedPlayers.length < requiredPlayers) return;
 
-      const matches = this.findMatches(queuedPlayers, requiredPlayers, matchType);
-      if (matches.length === 0) return;
+      const matches = findMatches(queuedPlayers, gameConfig, matchType);
+      let unmatched = queuedPlayers.length;
 
       for (const match of matches) {
-        // Step 1: Create the match session object
-        const matchResult = await this.createMatch(match);
+        // Randomly select starting player (or side): game order follows the match order
+        match.sort(() => Math.random() - 0.5);
+
+        // Step 1: Take the players out of the queue and record the session in one transaction
+        const matchResult = await this.reserveMatch(match, gameType, matchType, requiredPlayers);
+        if (!matchResult) continue;
         console.log(`[MATCHMAKING] Match created successfully: ${matchResult.room_code}`);
+        unmatched -= match.length;
 
-        // Step 2: Notify players via sockets
-        for (const player of match) {
-          const socketId = await redis.get(`socket:${player.user_id}`);
-          if (socketId && this.io) {
-            const payload = {
-              sessionId: matchResult.session_id,
-              roomCode: matchResult.room_code,
-              gameType,
-              matchType,
-              players: match.map(p => ({ id: p.user_id, username: p.username, elo: p.elo_rating })),
-            };
-            this.io.to(socketId).emit('match-found', payload);
-            this.io.to(socketId).emit('match-accepted', payload);
-          }
-        }
-        // Step 2.5: Emit game-started with initial game state
-        // Randomly select starting player
-        const playerIds = match.map(p => p.user_id);
-        const startingPlayerId = playerIds[Math.floor(Math.random() * playerIds.length)];
-        const initialGameState = {
-          board: Array(9).fill(null), // for TicTacToe
-          players: match.map(p => ({ id: p.user_id, username: p.username, elo: p.elo_rating })),
-          currentPlayer: startingPlayerId,
-          isFinished: false,
-          winner: null,
-          gameType,
-          moveCount: 0,
-        };
-        for (const player of match) {
-          const socketId = await redis.get(`socket:${player.user_id}`);
-          if (socketId && this.io) {
-            this.io.to(socketId).emit('game-started', { gameState: initialGameState });
-          }
-        }
-        
-        // Step 3 (THE FIX): After all notifications, remove players from the queue
-        console.log(`[MATCHMAKING] Removing matched players from queue for match ${matchResult.room_code}`);
-        for (const player of match) {
-          await this.removeFromAllQueues(player.user_id);
-        }
-        this.activeMatches.set(matchResult.session_id, {
-          ...matchResult,
-          status: 'playing'
-        });
+        // Step 2: Ask everyone to confirm; the game starts from acceptMatch once they all have
+        await this.startReadyCheck(matchResult, gameType, matchType);
       }
 
-      const remainingPlayers = await this.getQueuedPlayers(gameType, matchType);
-      if (remainingPlayers.length < requiredPlayers) {
-        const queueKey = `${gameType}:${matchType}`;
-        const interval = this.queueIntervals.get(queueKey);
-        if (interval) {
-          clearInterval(interval);
-          this.queueIntervals.delete(queueKey);
-          console.log(`[MATCHMAKING] Stopped interval for ${queueKey}`);
-        }
+      // Ranked search ranges widen with time, so players left over may match on a later pass
+      if (matchType === 'ranked' && unmatched >= requiredPlayers) {
+        this.scheduleMatchmaking(gameType, matchType, EXPANSION_INTERVAL);
       }
     } catch (error) {
       console.error('[MATCHMAKING] Error processing queue:', error);
+    } finally {
+      await this.releaseQueueLock(queueKey, lockToken);
     }
   }
 
-  // Find suitable matches
-  private static findMatches(players: QueueEntry[], requiredPlayers: number, matchType: string): QueueEntry[][] {
-    const matches: QueueEntry[][] = [];
-    const usedPlayers = new Set<string>();
-    const sortedPlayers = players.sort((a, b) => new Date(a.joined_at).getTime() - new Date(b.joined_at).getTime());
-
-    for (const player of sortedPlayers) {
-      if (usedPlayers.has(player.user_id)) continue;
-
-      const match = [player];
-      usedPlayers.add(player.user_id);
-
-      for (const opponent of sortedPlayers) {
-        if (usedPlayers.has(opponent.user_id) || match.length >= requiredPlayers) break;
-        if (this.isGoodMatch(player, opponent, matchType)) {
-          match.push(opponent);
-          usedPlayers.add(opponent.user_id);
-        }
-      }
-
-      if (match.length === requiredPlayers) {
-        matches.push(match);
-        console.log(`[MATCHMAKING] Found match: ${match.map(p => p.username).join(' vs ')}`);
-      } else {
-        match.forEach(p => usedPlayers.delete(p.user_id));
-      }
-    }
-    return matches;
+  private static async acquireQueueLock(queueKey: string): Promise<string | null> {
+    const token = uuidv4();
+    const acquired = await redis.set(`matchmaking-lock:${queueKey}`, token, { NX: true, PX: this.LOCK_TTL });
+    return acquired === 'OK' ? token : null;
   }
 
-  // Check if two players are a good match
-  private static isGoodMatch(player1: QueueEntry, player2: QueueEntry, matchType: string): boolean {
-    if (matchType === 'casual') return true;
-    const eloDiff = Math.abs(player1.elo_rating - player2.elo_rating);
-    const waitTime = Date.now() - new Date(player1.joined_at).getTime();
-    const expandedThreshold = this.ELO_THRESHOLD + Math.floor(waitTime / this.EXPANSION_INTERVAL) * 50;
-    return eloDiff <= expandedThreshold;
+  // Compare-and-delete, so a lock that expired and was taken by another node is left alone
+  private static async releaseQueueLock(queueKey: string, token: string): Promise<void> {
+    try {
+      await redis.eval(
+        "if redis.call('get', KEYS[1]) == ARGV[1] then return redis.call('del', KEYS[1]) else return 0 end",
+        { keys: [`matchmaking-lock:${queueKey}`], arguments: [token] }
+      );
+    } catch (error) {
+      console.error('[MATCHMAKING] Error releasing queue lock:', error);
+    }
   }
 
   // Get queue status
@@ -248,55 +433,434 @@ export class MatchmakingService {
     `;
     const result = await pool.query(query, [gameType, matchType]);
     const row = result.rows[0];
+    const averageElo = parseInt(row.average_elo) || 1000;
     return {
       gameType,
       matchType,
       playersInQueue: parseInt(row.players_in_queue) || 0,
-      averageElo: parseInt(row.average_elo) || 1000,
+      averageElo,
+      estimatedWaitTime: await this.estimateWaitTime(gameType, matchType, averageElo),
     };
   }
 
-  // Create match object (does not modify queue)
-  private static async createMatch(players: QueueEntry[]): Promise<MatchResult> {
-    const roomCode = Math.random().toString(36).substring(2, 8).toUpperCase();
+  // Expected seconds from joining to a started game, from recent matches in the same queue and rating band
+  static async estimateWaitTime(gameType: string, matchType: 'casual' | 'ranked', eloRating: number): Promise<number> {
+    const eloBand = this.eloBand(eloRating);
+    const cacheKey = `wait-estimate:${gameType}:${matchType}:${eloBand}`;
+    const cached = await redis.get(cacheKey);
+    if (cached !== null) return parseInt(cached);
+
+    let estimate = this.DEFAULT_WAIT_ESTIMATE;
+    const inBand = await this.getRecentWaits(gameType, matchType, eloBand);
+    if (inBand.samples >= this.MIN_BAND_SAMPLES) {
+      estimate = inBand.median;
+    } else {
+      const anyBand = await this.getRecentWaits(gameType, matchType, null);
+      if (anyBand.samples > 0) estimate = anyBand.median;
+    }
+
+    estimate = Math.round(estimate);
+    await redis.setEx(cacheKey, this.WAIT_ESTIMATE_CACHE_TTL, estimate.toString());
+    return estimate;
+  }
+
+  static async acceptMatch(userId: string): Promise<void> {
+    const pending = await this.getPendingMatch(userId);
+    if (!pending) return;
+
+    const acceptedKey = this.acceptedKey(pending.match.session_id);
+    await redis.multi().sAdd(acceptedKey, userId).pExpire(acceptedKey, this.READY_CHECK_TTL).exec();
+    const accepted = await redis.sMembers(acceptedKey);
+    this.emitToPlayers(pending.match.players, 'match-ready-update', {
+      sessionId: pending.match.session_id,
+      accepted
+    });
+
+    if (accepted.length === pending.match.players.length && await this.claimReadyCheck(pending)) {
+      await this.launchMatch(pending);
+    }
+  }
+
+  // Declining (or disconnecting) during a ready check cancels the match for everyone
+  static async declineMatch(userId: string): Promise<void> {
+    const pending = await this.getPendingMatch(userId);
+    if (!pending) return;
+
+    await this.failReadyCheck(pending, [userId], 'declined');
+  }
+
+  // Queue status as seen by one waiting player, with a bot offer once a casual wait runs long
+  static async getPlayerQueueStatus(userId: string, gameType: string, matchType: 'casual' | 'ranked'): Promise<any> {
+    const status = await this.getQueueStatus(gameType, matchType);
+    const entry = await this.getQueueEntry(userId, gameType, matchType);
+    if (!entry) {
+      return { ...status, isInQueue: false, botOffer: null };
+    }
+
     return {
-      session_id: `session_${Date.now()}`,
-      players,
-      room_code: roomCode,
+      ...status,
+      isInQueue: true,
+      provisional: matchType === 'ranked' && EloRatingService.isProvisional(entry.rating_deviation),
+      estimatedWaitTime: await this.estimateWaitTime(gameType, matchType, entry.elo_rating),
+      waitTime: Math.floor((Date.now() - new Date(entry.joined_at).getTime()) / 1000),
+      botOffer: await this.getBotOffer(entry)
     };
   }
 
-  // Get user stats
-  private static async getUserStats(userId: string): Promise<any> {
+  // Take the offered bot: leave the queue and start a casual game against it
+  static async acceptBotOffer(userId: string, username: string, gameType: string, socketId: string): Promise<void> {
+    const entry = await this.getQueueEntry(userId, gameType, 'casual');
+    const offer = entry ? await this.getBotOffer(entry) : null;
+    if (!offer) {
+      throw new Error('No bot opponent is on offer');
+    }
+
+    await this.removeFromAllQueues(userId);
+    await GameSessionService.startBotGame(userId, username, socketId, gameType, offer.difficulty);
+  }
+
+  // Keep waiting for a person; no further bot is offered for this queue entry
+  static async declineBotOffer(userId: string, gameType: string): Promise<void> {
+    await pool.query(
+      `UPDATE matchmaking_queue SET preferences = COALESCE(preferences, '{}'::jsonb) || '{"declinedBot": true}'::jsonb
+       WHERE user_id = $1 AND game_type = $2`,
+      [userId, gameType]
+    );
+  }
+
+  private static async getQueueEntry(userId: string, gameType: string, matchType: string): Promise<QueueEntry | undefined> {
+    const result = await pool.query(
+      'SELECT * FROM matchmaking_queue WHERE user_id = $1 AND game_type = $2 AND match_type = $3',
+      [userId, gameType, matchType]
+    );
+    return result.rows[0];
+  }
+
+  // The bot whose rating is closest to the player's, once they have waited long enough
+  private static async getBotOffer(entry: QueueEntry): Promise<BotOffer | null> {
+    if (entry.match_type !== 'casual' || this.BOT_BACKFILL_DELAY <= 0) return null;
+    if (entry.preferences?.declinedBot || !BotPlayer.supports(entry.game_type)) return null;
+    if (Date.now() - new Date(entry.joined_at).getTime() < this.BOT_BACKFILL_DELAY) return null;
+
+    const rating = entry.elo_rating;
+    const difficulty = BOT_DIFFICULTIES.reduce((closest, candidate) =>
+      Math.abs(BOT_ACCOUNTS[candidate].elo - rating) < Math.abs(BOT_ACCOUNTS[closest].elo - rating) ? candidate : closest
+    );
+
+    const account = BOT_ACCOUNTS[difficulty];
+    return { difficulty, username: account.username, elo: account.elo };
+  }
+
+  private static async startReadyCheck(match: MatchResult, gameType: string, matchType: 'casual' | 'ranked'): Promise<void> {
+    const pending: PendingMatch = { match, gameType, matchType };
+
+    const transaction = redis.multi()
+      .set(this.readyCheckKey(match.session_id), JSON.stringify(pending), { PX: this.READY_CHECK_TTL });
+    for (const player of match.players) {
+      transaction.set(this.playerReadyCheckKey(player.user_id), match.session_id, { PX: this.READY_CHECK_TTL });
+    }
+    await transaction.exec();
+    this.readyCheckTimers.set(
+      match.session_id,
+      setTimeout(() => this.expireReadyCheck(match.session_id), this.READY_CHECK_TIMEOUT)
+    );
+
+    this.emitToPlayers(match.players, 'match-found', {
+      ...this.getMatchPayload(pending),
+      acceptTimeout: this.READY_CHECK_TIMEOUT
+    });
+  }
+
+  // Whoever has not accepted when the window closes counts as declining
+  private static async expireReadyCheck(sessionId: string): Promise<void> {
+    this.readyCheckTimers.delete(sessionId);
     try {
-      const result = await pool.query('SELECT * FROM user_statistics WHERE user_id = $1', [userId]);
-      return result.rows[0];
+      const pending = await this.loadPendingMatch(sessionId);
+      if (!pending) return;
+
+      const accepted = await redis.sMembers(this.acceptedKey(sessionId));
+      const missing = pending.match.players.map(p => p.user_id).filter(id => !accepted.includes(id));
+      await this.failReadyCheck(pending, missing, 'timeout');
     } catch (error) {
-      console.error('[QUEUE] Error getting user stats:', error);
-      return null;
+      console.error('[MATCHMAKING] Error expiring ready check:', error);
     }
   }
 
-  // Get game config
-  private static async getGameConfig(gameType: string): Promise<any> {
+  // Decliners sit out a cooldown; everyone else goes back to the queue with their original join time,
+  // apart from the decliners' party members, who only queue together with them
+  private static async failReadyCheck(
+    pending: PendingMatch,
+    decliners: string[],
+    reason: 'declined' | 'timeout'
+  ): Promise<void> {
+    if (!await this.claimReadyCheck(pending)) return;
+    const { match } = pending;
+    console.log(`[MATCHMAKING] Match ${match.room_code} cancelled (${reason}): ${decliners.length} player(s) did not accept`);
+    await GameSessionModel.cancel(match.session_id);
+    const declinedParties = new Set(
+      match.players.filter(p => p.party_id && decliners.includes(p.user_id)).map(p => p.party_id)
+    );
+
+    for (const player of match.players) {
+      if (decliners.includes(player.user_id)) {
+        await redis.setEx(this.cooldownKey(player.user_id), this.DECLINE_COOLDOWN, '1');
+        this.emitToPlayers([player], 'match-declined', {
+          sessionId: match.session_id,
+          reason,
+          requeued: false,
+          cooldown: this.DECLINE_COOLDOWN
+        });
+      } else if (player.party_id && declinedParties.has(player.party_id)) {
+        this.emitToPlayers([player], 'match-declined', {
+          sessionId: match.session_id,
+          reason: 'party-member-declined',
+          requeued: false
+        });
+      } else {
+        await this.requeue(player);
+        this.emitToPlayers([player], 'match-declined', {
+          sessionId: match.session_id,
+          reason: 'opponent-declined',
+          requeued: true
+        });
+      }
+    }
+
+    this.requestMatchmaking(pending.gameType, pending.matchType);
+  }
+
+  // Ends a ready check. Accepts, declines and the timeout can race across nodes; only the caller
+  // whose delete removes the ready check goes on to launch or cancel the match.
+  private static async claimReadyCheck(pending: PendingMatch): Promise<boolean> {
+    const sessionId = pending.match.session_id;
+    clearTimeout(this.readyCheckTimers.get(sessionId));
+    this.readyCheckTimers.delete(sessionId);
+
+    if (!await redis.del(this.readyCheckKey(sessionId))) return false;
+    await redis.del([
+      this.acceptedKey(sessionId),
+      ...pending.match.players.map(player => this.playerReadyCheckKey(player.user_id))
+    ]);
+    return true;
+  }
+
+  private static async getPendingMatch(userId: string): Promise<PendingMatch | null> {
+    const sessionId = await redis.get(this.playerReadyCheckKey(userId));
+    return sessionId ? this.loadPendingMatch(sessionId) : null;
+  }
+
+  private static async loadPendingMatch(sessionId: string): Promise<PendingMatch | null> {
+    const stored = await redis.get(this.readyCheckKey(sessionId));
+    return stored ? JSON.parse(stored) : null;
+  }
+
+  private static readyCheckKey(sessionId: string): string {
+    return `ready-check:${sessionId}`;
+  }
+
+  private static acceptedKey(sessionId: string): string {
+    return `ready-check:${sessionId}:accepted`;
+  }
+
+  private static playerReadyCheckKey(userId: string): string {
+    return `ready-check-player:${userId}`;
+  }
+
+  // Original joined_at keeps them ahead of everyone who queued after them
+  private static async requeue(entry: QueueEntry): Promise<void> {
+    await pool.query(
+      `INSERT INTO matchmaking_queue
+         (user_id, game_type, match_type, elo_rating, preferences, region, joined_at, estimated_wait_time, rating_deviation, party_id)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, make_interval(secs => $8), $9, $10)
+       ON CONFLICT (user_id, game_type) DO NOTHING`,
+      [
+        entry.user_id,
+        entry.game_type,
+        entry.match_type,
+        entry.elo_rating,
+        JSON.stringify(entry.preferences ?? {}),
+        entry.region,
+        entry.joined_at,
+        entry.estimated_wait_seconds ?? null,
+        entry.rating_deviation,
+        entry.party_id ?? null
+      ]
+    );
+  }
+
+  // Every player confirmed: hand them to a real game instance, which emits game-started
+  private static async launchMatch(pending: PendingMatch): Promise<void> {
+    const { match, gameType, matchType } = pending;
+    const payload = this.getMatchPayload(pending);
+
+    const players: Player[] = [];
+    for (const player of match.players) {
+      players.push({
+        id: player.user_id,
+        username: player.username,
+        elo: player.elo_rating,
+        provisional: matchType === 'ranked' && EloRatingService.isProvisional(player.rating_deviation),
+        isConnected: true,
+        team: player.team
+      });
+
+      this.io?.to(GameSessionService.userRoom(player.user_id)).emit('match-accepted', payload);
+    }
+
+    await this.recordWaitTimes(match.players);
+    await GameSessionService.startSession(match.session_id, match.room_code, gameType, matchType, players);
+  }
+
+  // Only matches that actually start count towards future wait estimates
+  private static async recordWaitTimes(entries: QueueEntry[]): Promise<void> {
+    for (const entry of entries) {
+      await pool.query(
+        `INSERT INTO matchmaking_wait_history (user_id, game_type, match_type, elo_band, wait_time, estimated_wait_time)
+         VALUES ($1, $2, $3, $4, NOW() - $5::timestamp, make_interval(secs => $6))`,
+        [
+          entry.user_id,
+          entry.game_type,
+          entry.match_type,
+          this.eloBand(entry.elo_rating),
+          entry.joined_at,
+          entry.estimated_wait_seconds ?? null
+        ]
+      );
+    }
+  }
+
+  // Median wait of the latest matches; eloBand null covers every band
+  private static async getRecentWaits(
+    gameType: string,
+    matchType: string,
+    eloBand: number | null
+  ): Promise<{ samples: number; median: number }> {
+    const result = await pool.query(
+      `SELECT COUNT(*)::INTEGER AS samples,
+              percentile_cont(0.5) WITHIN GROUP (ORDER BY EXTRACT(EPOCH FROM wait_time)) AS median
+       FROM (
+         SELECT wait_time FROM matchmaking_wait_history
+         WHERE game_type = $1 AND match_type = $2 AND ($3::INTEGER IS NULL OR elo_band = $3)
+         ORDER BY matched_at DESC
+         LIMIT $4
+       ) recent`,
+      [gameType, matchType, eloBand, this.WAIT_SAMPLE_SIZE]
+    );
+    const row = result.rows[0];
+    return { samples: row?.samples ?? 0, median: parseFloat(row?.median) || 0 };
+  }
+
+  private static eloBand(eloRating: number): number {
+    return Math.floor(eloRating / this.ELO_BAND_SIZE) * this.ELO_BAND_SIZE;
+  }
+
+  private static getMatchPayload(pending: PendingMatch): any {
+    return {
+      sessionId: pending.match.session_id,
+      roomCode: pending.match.room_code,
+      gameType: pending.gameType,
+      matchType: pending.matchType,
+      players: pending.match.players.map(p => ({
+        id: p.user_id,
+        username: p.username,
+        elo: p.elo_rating,
+        provisional: pending.matchType === 'ranked' && EloRatingService.isProvisional(p.rating_deviation),
+        team: p.team
+      }))
+    };
+  }
+
+  private static emitToPlayers(players: QueueEntry[], event: string, payload: any): void {
+    this.emitToUsers(players.map(p => p.user_id), event, payload);
+  }
+
+  private static emitToUsers(userIds: string[], event: string, payload: any): void {
+    for (const userId of userIds) {
+      this.io?.to(GameSessionService.userRoom(userId)).emit(event, payload);
+    }
+  }
+
+  private static async checkCanQueue(userId: string): Promise<void> {
+    const cooldown = await redis.ttl(this.cooldownKey(userId));
+    if (cooldown > 0) {
+      throw new Error(`You declined a match recently. You can queue again in ${cooldown}s`);
+    }
+    if (await redis.exists(this.playerReadyCheckKey(userId))) {
+      throw new Error('You already have a match waiting for your answer');
+    }
+  }
+
+  private static cooldownKey(userId: string): string {
+    return `queue-cooldown:${userId}`;
+  }
+
+  // Removes the matched players from the queue and creates the waiting session row atomically;
+  // returns null if any of them already left the queue, leaving everything untouched
+  private static async reserveMatch(
+    players: QueueEntry[],
+    gameType: string,
+    matchType: 'casual' | 'ranked',
+    maxPlayers: number
+  ): Promise<MatchResult | null> {
+    const match: MatchResult = {
+      session_id: uuidv4(),
+      players,
+      room_code: Math.random().toString(36).substring(2, 8).toUpperCase(),
+    };
+
+    const client = await pool.connect();
     try {
-      const result = await pool.query('SELECT * FROM game_types WHERE id = $1', [gameType]);
-      return result.rows[0];
-    } catch (error) {
-      console.error(`[QUEUE] Error getting game config for ${gameType}:`, error);
-      if (gameType === 'tictactoe' || gameType === 'checkers') {
-        return { id: gameType, max_players: 2, min_players: 2 };
+      await client.query('BEGIN');
+
+      const removed = await client.query(
+        `DELETE FROM matchmaking_queue
+         WHERE user_id = ANY($1::uuid[]) AND game_type = $2 AND match_type = $3`,
+        [players.map(p => p.user_id), gameType, matchType]
+      );
+      if (removed.rowCount !== players.length) {
+        await client.query('ROLLBACK');
+        console.log(`[MATCHMAKING] Players left the queue before match ${match.room_code} was formed`);
+        return null;
       }
-      return null;
+
+      await GameSessionModel.createQueued(
+        client, match.session_id, match.room_code, gameType, matchType, maxPlayers, players[0].user_id
+      );
+
+      await client.query('COMMIT');
+      return match;
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  private static queueKey(gameType: string, matchType: string): string {
+    return `${gameType}:${matchType}`;
+  }
+
+  // Get game config
+  private static getGameConfig(gameType: string): GameDefinition | undefined {
+    const definition = GameRegistry.get(gameType);
+    if (!definition) {
+      console.error(`[QUEUE] Unknown game type ${gameType}`);
     }
+    return definition;
   }
 
   // Cleanup old entries and intervals
   static cleanup(): void {
-    for (const [key, interval] of this.queueIntervals.entries()) {
-      clearInterval(interval);
-      console.log(`[CLEANUP] Cleared matchmaking interval for ${key}`);
+    for (const [key, timer] of this.queueTimers.entries()) {
+      clearTimeout(timer);
+      console.log(`[CLEANUP] Cleared matchmaking timer for ${key}`);
+    }
+    this.queueTimers.clear();
+
+    for (const timer of this.readyCheckTimers.values()) {
+      clearTimeout(timer);
     }
-    this.queueIntervals.clear();
+    this.readyCheckTimers.clear();
   }
 }
\ No newline at end of file
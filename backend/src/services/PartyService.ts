@@ -0,0 +1,161 @@
+import { Server } from 'socket.io';
+import { v4 as uuidv4 } from 'uuid';
+import { UserModel } from '../models/User';
+import { GameSessionService } from './GameSessionService';
+import { MatchmakingService } from './MatchmakingService';
+
+export interface PartyMember {
+  id: string;
+  username: string;
+}
+
+// Friends who queue together; only the leader can invite, kick or join a queue for everyone
+export interface Party {
+  id: string;
+  leaderId: string;
+  members: PartyMember[];
+  invites: Set<string>; // user ids with an open invite
+}
+
+export class PartyService {
+  private static io: Server | null = null;
+  private static readonly MAX_PARTY_SIZE = 4;
+  private static parties = new Map<string, Party>(); // partyId -> party
+  private static memberParties = new Map<string, string>(); // userId -> partyId
+
+  static init(ioInstance: Server): void {
+    this.io = ioInstance;
+    console.log('[PARTY] Service initialized.');
+  }
+
+  static getParty(userId: string): Party | undefined {
+    const partyId = this.memberParties.get(userId);
+    return partyId ? this.parties.get(partyId) : undefined;
+  }
+
+  // Inviting someone while not in a party starts one with the inviter as leader
+  static async invite(leaderId: string, leaderName: string, username: string): Promise<void> {
+    const target = await UserModel.findByUsername(username);
+    if (!target) {
+      throw new Error(`No player named ${username}`);
+    }
+    if (target.id === leaderId) {
+      throw new Error('You cannot invite yourself');
+    }
+    if (this.memberParties.has(target.id)) {
+      throw new Error(`${target.username} is already in a party`);
+    }
+
+    let party = this.getParty(leaderId);
+    if (!party) {
+      party = { id: uuidv4(), leaderId, members: [{ id: leaderId, username: leaderName }], invites: new Set() };
+      this.parties.set(party.id, party);
+      this.memberParties.set(leaderId, party.id);
+      console.log(`[PARTY] ${leaderName} created party ${party.id}`);
+    }
+    if (party.leaderId !== leaderId) {
+      throw new Error('Only the party leader can invite players');
+    }
+    if (party.members.length + party.invites.size >= this.MAX_PARTY_SIZE) {
+      throw new Error(`Parties are limited to ${this.MAX_PARTY_SIZE} players`);
+    }
+
+    party.invites.add(target.id);
+    this.emitToUsers([target.id], 'party-invite', {
+      partyId: party.id,
+      from: { id: leaderId, username: leaderName }
+    });
+    this.emitUpdate(party);
+  }
+
+  static async acceptInvite(userId: string, username: string, partyId: string): Promise<void> {
+    const party = this.parties.get(partyId);
+    if (!party || !party.invites.has(userId)) {
+      throw new Error('That party invite is no longer valid');
+    }
+    if (this.memberParties.has(userId)) {
+      throw new Error('Leave your current party first');
+    }
+
+    // A queued party has to queue again with its new line-up
+    await MatchmakingService.removeFromAllQueues(party.leaderId);
+
+    party.invites.delete(userId);
+    party.members.push({ id: userId, username });
+    this.memberParties.set(userId, party.id);
+    console.log(`[PARTY] ${username} joined party ${party.id}`);
+    this.emitUpdate(party);
+  }
+
+  static declineInvite(userId: string, partyId: string): void {
+    const party = this.parties.get(partyId);
+    if (!party?.invites.delete(userId)) return;
+
+    this.emitUpdate(party);
+    if (party.members.length === 1 && party.invites.size === 0) {
+      this.disband(party);
+    }
+  }
+
+  // The longest-standing member takes over from a leader who leaves; a party of one is disbanded
+  static async leaveParty(userId: string): Promise<void> {
+    const party = this.getParty(userId);
+    if (!party) return;
+
+    await MatchmakingService.removeFromAllQueues(userId);
+
+    party.members = party.members.filter(m => m.id !== userId);
+    this.memberParties.delete(userId);
+    this.emitToUsers([userId], 'party-left', { partyId: party.id });
+    console.log(`[PARTY] ${userId} left party ${party.id}`);
+
+    if (party.members.length <= 1) {
+      this.disband(party);
+      return;
+    }
+    if (party.leaderId === userId) {
+      party.leaderId = party.members[0].id;
+    }
+    this.emitUpdate(party);
+  }
+
+  static async kick(leaderId: string, userId: string): Promise<void> {
+    const party = this.getParty(leaderId);
+    if (!party || party.leaderId !== leaderId) {
+      throw new Error('Only the party leader can remove players');
+    }
+    if (userId === leaderId || !party.members.some(m => m.id === userId)) {
+      throw new Error('That player is not in your party');
+    }
+
+    await this.leaveParty(userId);
+  }
+
+  static toPayload(party: Party): any {
+    return {
+      id: party.id,
+      leaderId: party.leaderId,
+      members: party.members,
+      pendingInvites: party.invites.size
+    };
+  }
+
+  private static disband(party: Party): void {
+    this.parties.delete(party.id);
+    for (const member of party.members) {
+      this.memberParties.delete(member.id);
+    }
+    this.emitToUsers(party.members.map(m => m.id), 'party-disbanded', { partyId: party.id });
+    console.log(`[PARTY] Party ${party.id} disbanded`);
+  }
+
+  private static emitUpdate(party: Party): void {
+    this.emitToUsers(party.members.map(m => m.id), 'party-updated', this.toPayload(party));
+  }
+
+  private static emitToUsers(userIds: string[], event: string, payload: any): void {
+    for (const userId of userIds) {
+      this.io?.to(GameSessionService.userRoom(userId)).emit(event, payload);
+    }
+  }
+}
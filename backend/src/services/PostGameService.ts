@@ -0,0 +1,191 @@
+import { pool, Queryable } from '../config/database';
+import { GameResult as FinishedGame, Player } from '../games/BaseGame';
+import { GameSessionModel } from '../models/GameSession';
+import { PlayerRating } from '../ratings/RatingEngine';
+import { EloRatingService, GameResult } from './EloRatingService';
+
+export interface FinishedSession {
+  sessionId: string;
+  gameType: string;
+  matchType: 'casual' | 'ranked';
+  players: Player[];
+  result: FinishedGame;
+}
+
+export interface EloChange {
+  userId: string;
+  eloBefore: number;
+  eloAfter: number;
+  eloChange: number;
+}
+
+// Everything a finished game changes for its players, written in one transaction
+export class PostGameService {
+  // Returns the rating change of every human player; games against bots report a change of 0
+  static async recordGame(session: FinishedSession): Promise<EloChange[]> {
+    const { sessionId, gameType, matchType, result } = session;
+    // Bot accounts keep no statistics or history
+    const humans = session.players.filter(p => !p.isBot);
+    let changes: EloChange[];
+
+    const client = await pool.connect();
+    try {
+      await client.query('BEGIN');
+      if (!await GameSessionModel.finish(sessionId, result.winner?.id ?? null, client)) {
+        await client.query('ROLLBACK');
+        console.log(`[POSTGAME] Session ${sessionId} is not playing; result already recorded`);
+        return [];
+      }
+
+      const outcomes = await this.getOutcomes(client, session, humans);
+      // Games against bots are practice and never move anyone's rating
+      const newRatings = humans.length === session.players.length
+        ? EloRatingService.calculateNewRatings(outcomes)
+        : new Map<string, PlayerRating>();
+      changes = outcomes.map(outcome => {
+        const eloAfter = newRatings.get(outcome.userId)?.rating ?? outcome.rating;
+        return { userId: outcome.userId, eloBefore: outcome.rating, eloAfter, eloChange: eloAfter - outcome.rating };
+      });
+
+      for (const outcome of outcomes) {
+        const change = changes.find(c => c.userId === outcome.userId)!;
+        await client.query(
+          `UPDATE game_participants SET placement = $1, forfeit = $2, is_active = false, left_at = NOW()
+           WHERE session_id = $3 AND user_id = $4`,
+          [outcome.placement, outcome.result === 'forfeit', sessionId, outcome.userId]
+        );
+        await this.updateUserStatistics(client, outcome);
+        await this.updateGameTypeStats(client, gameType, outcome, result.duration);
+        await client.query(
+          `INSERT INTO match_history
+             (session_id, user_id, game_type, match_type, result, elo_before, elo_after, elo_change, placement, duration, moves_count)
+           VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, make_interval(secs => $10), $11)`,
+          [
+            sessionId, outcome.userId, gameType, matchType, outcome.result,
+            change.eloBefore, change.eloAfter, change.eloChange, outcome.placement, result.duration, result.totalMoves
+          ]
+        );
+      }
+
+      if (newRatings.size > 0) {
+        await EloRatingService.updatePlayerRatings(client, sessionId, gameType, matchType, newRatings);
+        await client.query(
+          'UPDATE game_sessions SET elo_change = $1 WHERE id = $2',
+          [JSON.stringify(Object.fromEntries(changes.map(c => [c.userId, c.eloChange]))), sessionId]
+        );
+      }
+
+      await client.query('COMMIT');
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+
+    console.log(`[POSTGAME] Recorded ${matchType} ${gameType} session ${sessionId} for ${humans.length} player(s)`);
+    return changes;
+  }
+
+  // The winner's side wins; everyone else lost, or forfeited/disconnected if that is how the game ended.
+  // A free-for-all forfeit or timeout names no winner: the player placed behind the rest lost and the rest drew.
+  // Placements come from the game's final standings, which rank everyone in free-for-all games.
+  // Ratings are kept apart for casual and ranked play, so each game moves the one for its match type.
+  private static async getOutcomes(client: Queryable, session: FinishedSession, players: Player[]): Promise<GameResult[]> {
+    const winnerId = session.result.winner?.id;
+    const winningTeam = session.result.winningTeam ?? null;
+    const outcomes: GameResult[] = [];
+
+    for (const player of players) {
+      const rating = await EloRatingService.getRating(player.id, session.gameType, session.matchType, client);
+
+      const placedBehind = session.result.result !== 'draw' && (session.result.placements?.[player.id] ?? 1) > 1;
+
+      let outcome: GameResult['result'];
+      if (!winnerId && !placedBehind) {
+        outcome = 'draw';
+      } else if (player.id === winnerId || (winningTeam !== null && player.team === winningTeam)) {
+        outcome = 'win';
+      } else if (session.result.result === 'forfeit' || session.result.result === 'disconnect') {
+        outcome = session.result.result;
+      } else {
+        outcome = 'loss';
+      }
+      outcomes.push({
+        userId: player.id,
+        result: outcome,
+        placement: session.result.placements?.[player.id] ?? this.getPlacement(outcome),
+        rating: rating.rating,
+        deviation: rating.deviation,
+        volatility: rating.volatility,
+        team: player.team
+      });
+    }
+
+    return outcomes;
+  }
+
+  // For results recorded before games reported their standings
+  private static getPlacement(result: GameResult['result']): number {
+    return result === 'win' || result === 'draw' ? 1 : 2;
+  }
+
+  // Streaks are signed: positive for consecutive wins, negative for consecutive losses; draws reset them
+  private static async updateUserStatistics(client: Queryable, outcome: GameResult): Promise<void> {
+    const win = outcome.result === 'win' ? 1 : 0;
+    const draw = outcome.result === 'draw' ? 1 : 0;
+    const loss = 1 - win - draw;
+
+    await client.query(
+      `INSERT INTO user_statistics (user_id) VALUES ($1) ON CONFLICT (user_id) DO NOTHING`,
+      [outcome.userId]
+    );
+    await client.query(
+      `UPDATE user_statistics SET
+         total_games = total_games + 1,
+         total_wins = total_wins + $2,
+         total_losses = total_losses + $3,
+         total_draws = total_draws + $4,
+         current_streak = CASE
+           WHEN $2 = 1 THEN GREATEST(current_streak, 0) + 1
+           WHEN $3 = 1 THEN LEAST(current_streak, 0) - 1
+           ELSE 0
+         END,
+         best_streak = GREATEST(best_streak, CASE WHEN $2 = 1 THEN GREATEST(current_streak, 0) + 1 ELSE 0 END),
+         matches_today = CASE WHEN last_match_date = CURRENT_DATE THEN matches_today + 1 ELSE 1 END,
+         last_match_date = CURRENT_DATE,
+         last_game_at = NOW()
+       WHERE user_id = $1`,
+      [outcome.userId, win, loss, draw]
+    );
+  }
+
+  // average_duration is a running mean; best_time is the fastest win
+  private static async updateGameTypeStats(
+    client: Queryable,
+    gameType: string,
+    outcome: GameResult,
+    duration: number
+  ): Promise<void> {
+    const win = outcome.result === 'win' ? 1 : 0;
+    const draw = outcome.result === 'draw' ? 1 : 0;
+    const loss = 1 - win - draw;
+
+    await client.query(
+      `INSERT INTO game_type_stats (user_id, game_type, games_played, wins, losses, draws, average_duration, best_time)
+       VALUES ($1, $2, 1, $3, $4, $5, make_interval(secs => $6), CASE WHEN $3 = 1 THEN make_interval(secs => $6) END)
+       ON CONFLICT (user_id, game_type) DO UPDATE SET
+         games_played = game_type_stats.games_played + 1,
+         wins = game_type_stats.wins + $3,
+         losses = game_type_stats.losses + $4,
+         draws = game_type_stats.draws + $5,
+         average_duration = (COALESCE(game_type_stats.average_duration, INTERVAL '0') * game_type_stats.games_played
+           + make_interval(secs => $6)) / (game_type_stats.games_played + 1),
+         best_time = CASE
+           WHEN $3 = 1 THEN LEAST(COALESCE(game_type_stats.best_time, make_interval(secs => $6)), make_interval(secs => $6))
+           ELSE game_type_stats.best_time
+         END`,
+      [outcome.userId, gameType, win, loss, draw, duration]
+    );
+  }
+}
@@ -8,6 +8,7 @@ import GameLobby from './components/GameLobby';
 import GameArea from './components/GameArea';
 import GameResult from './components/GameResult';
 import StatsDashboard from './components/StatsDashboard';
+import ReplayViewer from './components/ReplayViewer';
 import MatchmakingQueue from './components/MatchmakingQueue';
 import NotificationSystem from './components/NotificationSystem';
 import ErrorBoundary from './components/ErrorBoundary';
@@ -164,6 +165,9 @@ function App() {
               
               {/* Statistics Dashboard Route */}
               <Route path="/stats" element={<StatsDashboard />} />
+
+              {/* Match Replay Route */}
+              <Route path="/replay/:sessionId" element={<ReplayViewer />} />
               
               {/* Redirect unknown routes to home */}
               <Route path="*" element={<Navigate to="/" replace />} />
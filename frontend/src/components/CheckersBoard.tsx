@@ -0,0 +1,145 @@
+import React, { useState } from 'react';
+import { motion } from 'framer-motion';
+import { useGameStore } from '../stores/gameStore';
+import type { Player } from '../types';
+
+type CheckersPiece = 'r' | 'R' | 'b' | 'B';
+
+interface Square {
+  row: number;
+  col: number;
+}
+
+export interface CheckersGameState {
+  board: (CheckersPiece | null)[][];
+  colors: Record<string, 'red' | 'black'>;
+  pendingJumpFrom: Square | null;
+  movesSinceCapture: number;
+  capturedPieces: Record<string, number>;
+  currentPlayer?: string;
+  isFinished?: boolean;
+  winner?: Player | null;
+  players?: Player[];
+}
+
+interface CheckersBoardProps {
+  gameState: CheckersGameState;
+  isMyTurn: boolean;
+}
+
+const CheckersBoard: React.FC<CheckersBoardProps> = ({ gameState, isMyTurn }) => {
+  const { makeMove, currentUserId, legalMoves } = useGameStore();
+  const [selected, setSelected] = useState<Square | null>(null);
+
+  const myColor = currentUserId ? gameState.colors[currentUserId] : undefined;
+  const myPieceLetter = myColor === 'black' ? 'b' : 'r';
+  // Black starts at the top of the board, so flip it to keep your own pieces at the bottom
+  const flipped = myColor === 'black';
+  const rows = Array.from({ length: 8 }, (_, i) => (flipped ? 7 - i : i));
+  const cols = Array.from({ length: 8 }, (_, i) => (flipped ? 7 - i : i));
+
+  // A piece in the middle of a multi-jump must keep moving
+  const activeSquare = gameState.pendingJumpFrom ?? selected;
+
+  const isMine = (piece: CheckersPiece | null) =>
+    !!piece && piece.toLowerCase() === myPieceLetter;
+
+  // Legal moves come from the server, so forced captures are already applied
+  const moves = legalMoves as unknown as { from: Square; to: Square }[];
+  const sameSquare = (a: Square | null, row: number, col: number) => a?.row === row && a?.col === col;
+  const canMoveFrom = (row: number, col: number) => moves.some(move => sameSquare(move.from, row, col));
+  const isTarget = (row: number, col: number) =>
+    moves.some(move => sameSquare(move.from, activeSquare?.row ?? -1, activeSquare?.col ?? -1) && sameSquare(move.to, row, col));
+
+  const handleSquareClick = (row: number, col: number) => {
+    if (!isMyTurn || gameState.isFinished) return;
+
+    const piece = gameState.board[row][col];
+    if (isMine(piece) && !gameState.pendingJumpFrom) {
+      setSelected({ row, col });
+      return;
+    }
+
+    if (activeSquare && isTarget(row, col)) {
+      makeMove({ from: activeSquare, to: { row, col } });
+      setSelected(null);
+    }
+  };
+
+  const currentPlayerName = gameState.players?.find(p => p.id === gameState.currentPlayer)?.username;
+
+  return (
+    <div className="w-full max-w-lg mx-auto">
+      {/* Game Info */}
+      <div className="text-center mb-6">
+        <div className="text-lg text-gray-400 mb-2">
+          {gameState.isFinished
+            ? (gameState.winner
+                ? `${gameState.winner.username} wins!`
+                : "It's a draw!")
+            : isMyTurn
+              ? (gameState.pendingJumpFrom ? 'Keep jumping!' : 'Your turn')
+              : `${currentPlayerName || 'Unknown'}'s turn`}
+        </div>
+        <div className="text-sm text-gray-500">
+          You are playing as: <span className={`font-bold ${myColor === 'black' ? 'text-gray-300' : 'text-red-400'}`}>{myColor ?? 'spectator'}</span>
+          {' • '}Moves without capture: {Math.floor(gameState.movesSinceCapture / 2)}
+        </div>
+      </div>
+
+      {/* Game Board */}
+      <div className="grid grid-cols-8 aspect-square rounded-lg overflow-hidden border-2 border-slate-600">
+        {rows.map(row =>
+          cols.map(col => {
+            const piece = gameState.board[row][col];
+            const isDark = (row + col) % 2 === 1;
+            const isActive = sameSquare(activeSquare, row, col);
+
+            return (
+              <button
+                key={`${row}-${col}`}
+                onClick={() => handleSquareClick(row, col)}
+                disabled={!isDark || !isMyTurn || gameState.isFinished}
+                className={`
+                  aspect-square flex items-center justify-center
+                  ${isDark ? 'bg-slate-700' : 'bg-slate-400'}
+                  ${isActive ? 'ring-4 ring-inset ring-blue-500' : ''}
+                  ${!activeSquare && canMoveFrom(row, col) ? 'ring-2 ring-inset ring-blue-400/60' : ''}
+                  ${isTarget(row, col) ? 'ring-4 ring-inset ring-green-500/70' : ''}
+                  ${isDark && isMyTurn && !gameState.isFinished ? 'hover:bg-slate-600 cursor-pointer' : ''}
+                `}
+              >
+                {piece && (
+                  <motion.div
+                    layout
+                    initial={{ scale: 0 }}
+                    animate={{ scale: 1 }}
+                    className={`
+                      w-4/5 h-4/5 rounded-full border-4 flex items-center justify-center text-lg font-bold
+                      ${piece.toLowerCase() === 'r'
+                        ? 'bg-red-500 border-red-700 text-red-900'
+                        : 'bg-gray-900 border-gray-600 text-gray-400'}
+                    `}
+                  >
+                    {(piece === 'R' || piece === 'B') && '♔'}
+                  </motion.div>
+                )}
+              </button>
+            );
+          })
+        )}
+      </div>
+
+      {/* Captures */}
+      <div className="mt-4 flex justify-between text-sm text-gray-400">
+        {gameState.players?.map(player => (
+          <span key={player.id}>
+            {player.username}: {gameState.capturedPieces[player.id] ?? 0} captured
+          </span>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default CheckersBoard;
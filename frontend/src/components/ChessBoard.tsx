@@ -0,0 +1,180 @@
+import React, { useMemo, useState } from 'react';
+import { motion } from 'framer-motion';
+import { useGameStore } from '../stores/gameStore';
+import type { Player } from '../types';
+
+export interface ChessGameState {
+  fen: string;
+  turn: 'w' | 'b';
+  colors: Record<string, 'w' | 'b'>;
+  inCheck: boolean;
+  lastMove: { from: string; to: string; san: string } | null;
+  history: string[];
+  currentPlayer?: string;
+  isFinished?: boolean;
+  winner?: Player | null;
+  players?: Player[];
+}
+
+interface ChessBoardProps {
+  gameState: ChessGameState;
+  isMyTurn: boolean;
+}
+
+const PIECE_SYMBOLS: Record<string, string> = {
+  K: '♔', Q: '♕', R: '♖', B: '♗', N: '♘', P: '♙',
+  k: '♚', q: '♛', r: '♜', b: '♝', n: '♞', p: '♟',
+};
+
+const FILES = 'abcdefgh';
+
+// Expand the placement field of a FEN string into rows of squares, rank 8 first
+const parseBoard = (fen: string): (string | null)[][] =>
+  fen.split(' ')[0].split('/').map(rank =>
+    rank.split('').flatMap(char => (/\d/.test(char) ? Array(parseInt(char, 10)).fill(null) : [char]))
+  );
+
+const ChessBoard: React.FC<ChessBoardProps> = ({ gameState, isMyTurn }) => {
+  const { makeMove, currentUserId, legalMoves } = useGameStore();
+  const [selected, setSelected] = useState<string | null>(null);
+  const [pendingPromotion, setPendingPromotion] = useState<{ from: string; to: string } | null>(null);
+
+  const board = useMemo(() => parseBoard(gameState.fen), [gameState.fen]);
+  const myColor = currentUserId ? gameState.colors[currentUserId] : undefined;
+  const flipped = myColor === 'b';
+  const rankIndexes = Array.from({ length: 8 }, (_, i) => (flipped ? 7 - i : i));
+  const fileIndexes = Array.from({ length: 8 }, (_, i) => (flipped ? 7 - i : i));
+
+  const pieceAt = (square: string) => board[8 - parseInt(square[1], 10)][FILES.indexOf(square[0])];
+  const isMine = (piece: string | null) =>
+    !!piece && (piece === piece.toUpperCase() ? 'w' : 'b') === myColor;
+
+  // Moves for the selected piece, as reported by the server
+  const moves = legalMoves as unknown as { from: string; to: string; promotion?: string }[];
+  const targets = moves.filter(move => move.from === selected);
+
+  const handleSquareClick = (square: string) => {
+    if (!isMyTurn || gameState.isFinished || pendingPromotion) return;
+
+    const piece = pieceAt(square);
+    if (isMine(piece)) {
+      setSelected(square);
+      return;
+    }
+
+    const candidates = targets.filter(move => move.to === square);
+    if (!selected || candidates.length === 0) return;
+
+    if (candidates.some(move => move.promotion)) {
+      setPendingPromotion({ from: selected, to: square });
+      return;
+    }
+
+    makeMove({ from: selected, to: square });
+    setSelected(null);
+  };
+
+  const handlePromotion = (promotion: string) => {
+    if (!pendingPromotion) return;
+    makeMove({ ...pendingPromotion, promotion });
+    setPendingPromotion(null);
+    setSelected(null);
+  };
+
+  const currentPlayerName = gameState.players?.find(p => p.id === gameState.currentPlayer)?.username;
+  const kingInCheck = gameState.inCheck ? (gameState.turn === 'w' ? 'K' : 'k') : null;
+
+  return (
+    <div className="w-full max-w-lg mx-auto">
+      {/* Game Info */}
+      <div className="text-center mb-6">
+        <div className="text-lg text-gray-400 mb-2">
+          {gameState.isFinished
+            ? (gameState.winner
+                ? `${gameState.winner.username} wins!`
+                : "It's a draw!")
+            : isMyTurn
+              ? (gameState.inCheck ? 'Your turn - you are in check!' : 'Your turn')
+              : `${currentPlayerName || 'Unknown'}'s turn`}
+        </div>
+        <div className="text-sm text-gray-500">
+          You are playing as: <span className="font-bold text-white">{myColor === 'w' ? 'White' : myColor === 'b' ? 'Black' : 'Spectator'}</span>
+        </div>
+      </div>
+
+      {/* Game Board */}
+      <div className="grid grid-cols-8 aspect-square rounded-lg overflow-hidden border-2 border-slate-600">
+        {rankIndexes.map(rankIndex =>
+          fileIndexes.map(fileIndex => {
+            const square = FILES[fileIndex] + (8 - rankIndex);
+            const piece = board[rankIndex][fileIndex];
+            const isLight = (rankIndex + fileIndex) % 2 === 0;
+            const isSelected = selected === square;
+            const isLastMove = gameState.lastMove?.from === square || gameState.lastMove?.to === square;
+            const isTarget = targets.some(move => move.to === square);
+
+            return (
+              <button
+                key={square}
+                onClick={() => handleSquareClick(square)}
+                disabled={!isMyTurn || gameState.isFinished}
+                className={`
+                  aspect-square flex items-center justify-center text-4xl select-none
+                  ${isLight ? 'bg-slate-400' : 'bg-slate-700'}
+                  ${isLastMove ? 'bg-yellow-500/60' : ''}
+                  ${isSelected ? 'ring-4 ring-inset ring-blue-500' : ''}
+                  ${isTarget && piece ? 'ring-4 ring-inset ring-green-500/70' : ''}
+                  ${piece === kingInCheck ? 'ring-4 ring-inset ring-red-500' : ''}
+                  ${isMyTurn && !gameState.isFinished ? 'cursor-pointer' : ''}
+                `}
+              >
+                {isTarget && !piece && <span className="w-1/4 h-1/4 rounded-full bg-green-500/60" />}
+                {piece && (
+                  <motion.span
+                    initial={{ scale: 0 }}
+                    animate={{ scale: 1 }}
+                    className={piece === piece.toUpperCase() ? 'text-white drop-shadow' : 'text-gray-900'}
+                  >
+                    {PIECE_SYMBOLS[piece]}
+                  </motion.span>
+                )}
+              </button>
+            );
+          })
+        )}
+      </div>
+
+      {/* Promotion Picker */}
+      {pendingPromotion && (
+        <div className="mt-4 flex items-center justify-center gap-2">
+          <span className="text-sm text-gray-400">Promote to:</span>
+          {['q', 'r', 'b', 'n'].map(type => (
+            <button
+              key={type}
+              onClick={() => handlePromotion(type)}
+              className="btn btn-secondary text-2xl px-3 py-1"
+            >
+              {PIECE_SYMBOLS[myColor === 'w' ? type.toUpperCase() : type]}
+            </button>
+          ))}
+          <button onClick={() => setPendingPromotion(null)} className="btn btn-outline btn-sm">
+            Cancel
+          </button>
+        </div>
+      )}
+
+      {/* Move History */}
+      {gameState.history.length > 0 && (
+        <div className="mt-4 text-sm text-gray-400 font-mono flex flex-wrap gap-x-3">
+          {gameState.history.map((san, index) => (
+            <span key={index}>
+              {index % 2 === 0 && <span className="text-gray-500">{index / 2 + 1}.</span>} {san}
+            </span>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ChessBoard;
@@ -0,0 +1,104 @@
+import React from 'react';
+import { motion } from 'framer-motion';
+import { useGameStore } from '../stores/gameStore';
+import type { Player } from '../types';
+
+interface Cell {
+  row: number;
+  col: number;
+}
+
+export interface Connect4GameState {
+  board: ('red' | 'yellow' | null)[][];
+  colors: Record<string, 'red' | 'yellow'>;
+  rows: number;
+  columns: number;
+  connectLength: number;
+  lastMove: Cell | null;
+  winningCells: Cell[] | null;
+  currentPlayer?: string;
+  isFinished?: boolean;
+  winner?: Player | null;
+  players?: Player[];
+}
+
+interface Connect4BoardProps {
+  gameState: Connect4GameState;
+  isMyTurn: boolean;
+}
+
+const Connect4Board: React.FC<Connect4BoardProps> = ({ gameState, isMyTurn }) => {
+  const { makeMove, currentUserId, legalMoves } = useGameStore();
+  const myColor = currentUserId ? gameState.colors[currentUserId] : undefined;
+
+  const legalColumns = new Set(legalMoves.map(move => move.column));
+  const canDrop = (column: number) =>
+    isMyTurn && !gameState.isFinished && legalColumns.has(column);
+
+  const handleColumnClick = (column: number) => {
+    if (!canDrop(column)) return;
+    makeMove({ column });
+  };
+
+  const isWinningCell = (row: number, col: number) =>
+    !!gameState.winningCells?.some(cell => cell.row === row && cell.col === col);
+
+  const currentPlayerName = gameState.players?.find(p => p.id === gameState.currentPlayer)?.username;
+
+  return (
+    <div className="w-full max-w-lg mx-auto">
+      {/* Game Info */}
+      <div className="text-center mb-6">
+        <div className="text-lg text-gray-400 mb-2">
+          {gameState.isFinished
+            ? (gameState.winner
+                ? `${gameState.winner.username} wins!`
+                : "It's a draw!")
+            : isMyTurn
+              ? "Your turn"
+              : `${currentPlayerName || 'Unknown'}'s turn`}
+        </div>
+        <div className="text-sm text-gray-500">
+          You are playing as: <span className={`font-bold ${myColor === 'yellow' ? 'text-yellow-400' : 'text-red-400'}`}>{myColor ?? 'spectator'}</span>
+          {' • '}Connect {gameState.connectLength} to win
+        </div>
+      </div>
+
+      {/* Game Board */}
+      <div
+        className="grid gap-2 p-3 bg-blue-700 rounded-lg"
+        style={{ gridTemplateColumns: `repeat(${gameState.columns}, minmax(0, 1fr))` }}
+      >
+        {gameState.board.map((row, rowIndex) =>
+          row.map((cell, colIndex) => (
+            <button
+              key={`${rowIndex}-${colIndex}`}
+              onClick={() => handleColumnClick(colIndex)}
+              disabled={!canDrop(colIndex)}
+              className={`
+                aspect-square rounded-full bg-slate-800 flex items-center justify-center
+                ${canDrop(colIndex) ? 'hover:bg-slate-700 cursor-pointer' : 'cursor-not-allowed'}
+              `}
+            >
+              {cell && (
+                <motion.div
+                  key={`${rowIndex}-${colIndex}-${cell}`}
+                  initial={{ y: -40 * (rowIndex + 1), opacity: 0 }}
+                  animate={{ y: 0, opacity: 1 }}
+                  transition={{ type: 'spring', stiffness: 300, damping: 20 }}
+                  className={`
+                    w-full h-full rounded-full
+                    ${cell === 'red' ? 'bg-red-500' : 'bg-yellow-400'}
+                    ${isWinningCell(rowIndex, colIndex) ? 'ring-4 ring-white animate-pulse' : ''}
+                  `}
+                />
+              )}
+            </button>
+          ))
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default Connect4Board;
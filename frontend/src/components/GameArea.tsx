@@ -1,11 +1,26 @@
 import React, { useMemo } from 'react';
 import { motion } from 'framer-motion';
+import { Eye } from 'lucide-react';
 import { useGameStore } from '../stores/gameStore';
 import { useAuthStore } from '../stores/authStore';
 import GameBoard from './GameBoard';
+import GameClock from './GameClock';
+import GameChat from './GameChat';
 
 const GameArea: React.FC = () => {
-  const { currentRoom, gameState, leaveRoom } = useGameStore();
+  const {
+    currentRoom,
+    gameState,
+    leaveRoom,
+    takebackRequest,
+    requestTakeback,
+    respondToTakeback,
+    drawOffer,
+    offerDraw,
+    respondToDraw,
+    isSpectating,
+    spectatorCount
+  } = useGameStore();
   const { user } = useAuthStore();
 
   const myPlayerIndex = useMemo(() => {
@@ -41,18 +56,87 @@ const GameArea: React.FC = () => {
             <h1 className="text-2xl font-bold text-white">
               {currentRoom.gameType.charAt(0).toUpperCase() + currentRoom.gameType.slice(1)}
             </h1>
-            <p className="text-gray-400">Room: {currentRoom.code}</p>
+            <p className="text-gray-400 flex items-center gap-2">
+              Room: {currentRoom.code}
+              <span className="flex items-center gap-1" title="Spectators">
+                <Eye className="w-4 h-4" /> {spectatorCount}
+              </span>
+              {isSpectating && (
+                <span className="px-2 py-0.5 rounded text-xs bg-purple-500/20 text-purple-400">Spectating</span>
+              )}
+            </p>
+          </div>
+          <div className="flex items-center gap-2">
+            {/* Takebacks are a casual-only courtesy */}
+            {!isSpectating && currentRoom.matchType !== 'ranked' && !gameState.isFinished && (
+              <button
+                onClick={requestTakeback}
+                disabled={!!takebackRequest}
+                className="btn btn-secondary btn-sm"
+              >
+                {takebackRequest?.playerId === user?.id ? 'Takeback requested...' : 'Request Takeback'}
+              </button>
+            )}
+            {!isSpectating && !gameState.isFinished && (
+              <button
+                onClick={offerDraw}
+                disabled={!!drawOffer}
+                className="btn btn-secondary btn-sm"
+              >
+                {drawOffer?.playerId === user?.id ? 'Draw offered...' : 'Offer Draw'}
+              </button>
+            )}
+            <button 
+              onClick={handleLeaveRoom}
+              className="btn btn-outline btn-sm"
+            >
+              {isSpectating ? 'Stop Watching' : 'Quit Game'}
+            </button>
           </div>
-          <button 
-            onClick={handleLeaveRoom}
-            className="btn btn-outline btn-sm"
-          >
-            Quit Game
-          </button>
         </div>
       </header>
 
       <div className="max-w-4xl mx-auto px-4 py-8">
+        {!isSpectating && takebackRequest && takebackRequest.playerId !== user?.id && (
+          <motion.div
+            initial={{ opacity: 0, y: -10 }}
+            animate={{ opacity: 1, y: 0 }}
+            className="mb-6 p-4 bg-slate-700 rounded-lg flex items-center justify-between"
+          >
+            <span className="text-white">
+              {takebackRequest.playerName} wants to take back their last move
+            </span>
+            <div className="flex gap-2">
+              <button onClick={() => respondToTakeback(true)} className="btn btn-primary btn-sm">
+                Accept
+              </button>
+              <button onClick={() => respondToTakeback(false)} className="btn btn-outline btn-sm">
+                Decline
+              </button>
+            </div>
+          </motion.div>
+        )}
+
+        {!isSpectating && drawOffer && drawOffer.playerId !== user?.id && !gameState.isFinished && (
+          <motion.div
+            initial={{ opacity: 0, y: -10 }}
+            animate={{ opacity: 1, y: 0 }}
+            className="mb-6 p-4 bg-slate-700 rounded-lg flex items-center justify-between"
+          >
+            <span className="text-white">
+              {drawOffer.playerName} offers a draw
+            </span>
+            <div className="flex gap-2">
+              <button onClick={() => respondToDraw(true)} className="btn btn-primary btn-sm">
+                Accept Draw
+              </button>
+              <button onClick={() => respondToDraw(false)} className="btn btn-outline btn-sm">
+                Decline
+              </button>
+            </div>
+          </motion.div>
+        )}
+
         <div className="grid lg:grid-cols-3 gap-8">
           {/* Players Panel */}
           <div className="lg:col-span-1">
@@ -75,6 +159,9 @@ const GameArea: React.FC = () => {
                         <div className="font-medium text-white">
                           {player.username}
                           {player.id === user?.id && ' (You)'}
+                          {player.isBot && (
+                            <span className="ml-2 px-2 py-0.5 rounded text-xs bg-slate-600 text-gray-300">Computer</span>
+                          )}
                         </div>
                         <div className="text-sm text-gray-400">
                           Playing as: <span className={`font-bold ${index === 0 ? 'text-blue-400' : 'text-red-400'}`}>
@@ -82,7 +169,13 @@ const GameArea: React.FC = () => {
                           </span>
                         </div>
                       </div>
-                      {gameState.currentPlayer?.id === player.id && !gameState.isFinished && (
+                      {gameState.clocks ? (
+                        <GameClock
+                          key={`${player.id}-${gameState.clocks.remaining[player.id]}`}
+                          remaining={gameState.clocks.remaining[player.id] ?? 0}
+                          running={gameState.clocks.activePlayerId === player.id && !gameState.isFinished}
+                        />
+                      ) : gameState.currentPlayer?.id === player.id && !gameState.isFinished && (
                         <div className="w-2 h-2 bg-green-400 rounded-full animate-pulse"></div>
                       )}
                     </div>
@@ -111,6 +204,8 @@ const GameArea: React.FC = () => {
                 </motion.div>
               )}
             </div>
+
+            <GameChat />
           </div>
 
           {/* Game Board */}
@@ -1,5 +1,11 @@
 import React from 'react';
 import TicTacToeBoard from './TicTacToeBoard';
+import CheckersBoard from './CheckersBoard';
+import type { CheckersGameState } from './CheckersBoard';
+import ChessBoard from './ChessBoard';
+import type { ChessGameState } from './ChessBoard';
+import Connect4Board from './Connect4Board';
+import type { Connect4GameState } from './Connect4Board';
 import type { GameState } from '../types';
 
 interface GameBoardProps {
@@ -24,6 +30,28 @@ const GameBoard: React.FC<GameBoardProps> = ({
           mySymbol={mySymbol as 'X' | 'O'}
         />
       );
+    case 'checkers':
+      return (
+        <CheckersBoard
+          gameState={gameState as unknown as CheckersGameState}
+          isMyTurn={isMyTurn}
+        />
+      );
+    case 'chess':
+      return (
+        <ChessBoard
+          gameState={gameState as unknown as ChessGameState}
+          isMyTurn={isMyTurn}
+        />
+      );
+    case 'connect4':
+    case 'connect4teams':
+      return (
+        <Connect4Board
+          gameState={gameState as unknown as Connect4GameState}
+          isMyTurn={isMyTurn}
+        />
+      );
     default:
       return (
         <div className="text-center text-gray-400">
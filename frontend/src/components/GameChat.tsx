@@ -0,0 +1,62 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { useGameStore } from '../stores/gameStore';
+import { useAuthStore } from '../stores/authStore';
+
+// Room chat; spectator messages are only delivered to other spectators
+const GameChat: React.FC = () => {
+  const { chatMessages, sendChatMessage, isSpectating } = useGameStore();
+  const { user } = useAuthStore();
+  const [draft, setDraft] = useState('');
+  const listRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    listRef.current?.scrollTo({ top: listRef.current.scrollHeight });
+  }, [chatMessages.length]);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!draft.trim()) return;
+
+    sendChatMessage(draft);
+    setDraft('');
+  };
+
+  return (
+    <div className="card mt-6">
+      <h3 className="text-lg font-bold text-white mb-1">Chat</h3>
+      {isSpectating && (
+        <p className="text-xs text-gray-400 mb-3">Players can't see spectator messages</p>
+      )}
+
+      <div ref={listRef} className="space-y-2 h-48 overflow-y-auto mb-3">
+        {chatMessages.map((message, index) => (
+          <div key={`${message.timestamp}-${index}`} className="text-sm">
+            <span className={`font-medium ${message.isSpectator ? 'text-purple-400' : 'text-blue-400'}`}>
+              {message.userId === user?.id ? 'You' : message.username}
+            </span>
+            <span className="text-gray-300">: {message.message}</span>
+          </div>
+        ))}
+        {chatMessages.length === 0 && (
+          <div className="text-sm text-gray-500 text-center py-4">No messages yet</div>
+        )}
+      </div>
+
+      <form onSubmit={handleSubmit} className="flex gap-2">
+        <input
+          type="text"
+          value={draft}
+          onChange={(e) => setDraft(e.target.value)}
+          maxLength={500}
+          placeholder={isSpectating ? 'Message spectators' : 'Message the room'}
+          className="flex-1 px-3 py-2 bg-slate-700 text-white rounded-lg border border-slate-600 focus:border-blue-500 focus:outline-none text-sm"
+        />
+        <button type="submit" disabled={!draft.trim()} className="btn btn-primary btn-sm disabled:opacity-50">
+          Send
+        </button>
+      </form>
+    </div>
+  );
+};
+
+export default GameChat;
@@ -0,0 +1,47 @@
+import React, { useEffect, useState } from 'react';
+
+interface GameClockProps {
+  remaining: number; // ms left when this clock state arrived
+  running: boolean;
+}
+
+const formatTime = (ms: number) => {
+  const totalSeconds = Math.floor(ms / 1000);
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = totalSeconds % 60;
+
+  // Show tenths once time gets short
+  if (ms < 10000) {
+    return `${seconds}.${Math.floor((ms % 1000) / 100)}`;
+  }
+  return `${minutes}:${seconds.toString().padStart(2, '0')}`;
+};
+
+// Counts down locally from the last server value; remount it (via key) when a new value arrives
+const GameClock: React.FC<GameClockProps> = ({ remaining, running }) => {
+  const [startedAt] = useState(() => Date.now());
+  const [now, setNow] = useState(startedAt);
+
+  useEffect(() => {
+    if (!running) return;
+
+    const interval = setInterval(() => setNow(Date.now()), 100);
+    return () => clearInterval(interval);
+  }, [running]);
+
+  const timeLeft = Math.max(0, remaining - (running ? now - startedAt : 0));
+
+  return (
+    <div
+      className={`
+        font-mono text-lg font-bold px-2 py-1 rounded
+        ${running ? 'bg-slate-900 text-white' : 'text-gray-400'}
+        ${running && timeLeft < 10000 ? 'text-red-400 animate-pulse' : ''}
+      `}
+    >
+      {formatTime(timeLeft)}
+    </div>
+  );
+};
+
+export default GameClock;
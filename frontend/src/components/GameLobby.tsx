@@ -1,11 +1,15 @@
 import React, { useState, useEffect } from 'react';
 import { motion } from 'framer-motion';
+import { Bot, Crown, Eye, RefreshCw, Users, X } from 'lucide-react';
 import { useGameStore } from '../stores/gameStore';
+import type { BotDifficulty, GameType } from '../stores/gameStore';
 
 const GameLobby: React.FC = () => {
   const [roomCode, setRoomCode] = useState('');
   const [selectedDifficulty, setSelectedDifficulty] = useState<string>('all');
   const [selectedTags, setSelectedTags] = useState<string[]>([]);
+  const [botDifficulty, setBotDifficulty] = useState<BotDifficulty>('medium');
+  const [inviteName, setInviteName] = useState('');
   
   const { 
     currentRoom, 
@@ -14,17 +18,39 @@ const GameLobby: React.FC = () => {
     createRoom, 
     joinRoom, 
     fetchGameTypes,
-    joinMatchmakingQueue
+    joinMatchmakingQueue,
+    liveGames,
+    fetchLiveGames,
+    spectateGame,
+    playVsComputer,
+    currentUserId,
+    party,
+    partyInvites,
+    inviteToParty,
+    acceptPartyInvite,
+    declinePartyInvite,
+    leaveParty,
+    kickFromParty
   } = useGameStore();
 
+  const isPartyLeader = !party || party.leaderId === currentUserId;
+  // A party plays on one side, so it can only queue for games whose sides hold all of it
+  const partyFits = (game: GameType) => !party || party.members.length <= (game.team_size ?? 1);
+
   useEffect(() => {
     if (gameTypes.length === 0) {
       fetchGameTypes();
     }
   }, [gameTypes.length, fetchGameTypes]);
 
+  useEffect(() => {
+    if (!currentRoom) {
+      fetchLiveGames();
+    }
+  }, [currentRoom, fetchLiveGames]);
+
   const handleCreateRoom = (gameType: string) => {
-    createRoom(gameType, 'casual');
+    createRoom(gameType);
   };
 
   const handleJoinRoom = () => {
@@ -33,6 +59,12 @@ const GameLobby: React.FC = () => {
     }
   };
 
+  const handleWatchRoom = () => {
+    if (roomCode.trim()) {
+      spectateGame({ roomCode: roomCode.trim().toUpperCase() });
+    }
+  };
+
   const handleQuickMatch = (gameType: string) => {
     joinMatchmakingQueue(gameType, 'casual');
   };
@@ -108,6 +140,127 @@ const GameLobby: React.FC = () => {
                     >
                       Join Room
                     </button>
+                    <button
+                      onClick={handleWatchRoom}
+                      disabled={!roomCode.trim()}
+                      className="w-full btn btn-outline py-3 disabled:opacity-50"
+                    >
+                      Watch as Spectator
+                    </button>
+                  </div>
+                </div>
+
+                {/* Party */}
+                <div className="card mt-6">
+                  <h3 className="text-lg font-bold text-white mb-4 flex items-center gap-2">
+                    <Users className="w-5 h-5" /> Party
+                  </h3>
+                  {partyInvites.map(invite => (
+                    <div key={invite.partyId} className="p-3 bg-slate-700 rounded-lg mb-3">
+                      <div className="text-sm text-gray-300 mb-2">
+                        {invite.from.username} invited you to their party
+                      </div>
+                      <div className="flex gap-2">
+                        <button
+                          onClick={() => acceptPartyInvite(invite.partyId)}
+                          className="flex-1 btn btn-primary btn-sm"
+                        >
+                          Accept
+                        </button>
+                        <button
+                          onClick={() => declinePartyInvite(invite.partyId)}
+                          className="flex-1 btn btn-secondary btn-sm"
+                        >
+                          Decline
+                        </button>
+                      </div>
+                    </div>
+                  ))}
+                  {party && (
+                    <div className="space-y-2 mb-3">
+                      {party.members.map(member => (
+                        <div key={member.id} className="flex justify-between items-center text-sm text-white">
+                          <span className="flex items-center gap-2">
+                            {member.id === party.leaderId && <Crown className="w-4 h-4 text-yellow-400" />}
+                            {member.username}
+                          </span>
+                          {party.leaderId === currentUserId && member.id !== currentUserId && (
+                            <button
+                              onClick={() => kickFromParty(member.id)}
+                              className="text-gray-400 hover:text-red-400"
+                              title="Remove from party"
+                            >
+                              <X className="w-4 h-4" />
+                            </button>
+                          )}
+                        </div>
+                      ))}
+                      {party.pendingInvites > 0 && (
+                        <div className="text-xs text-gray-500">{party.pendingInvites} invite(s) pending</div>
+                      )}
+                    </div>
+                  )}
+                  {isPartyLeader ? (
+                    <div className="flex gap-2">
+                      <input
+                        type="text"
+                        placeholder="Invite by username"
+                        value={inviteName}
+                        onChange={(e) => setInviteName(e.target.value)}
+                        className="flex-1 min-w-0 px-3 py-2 bg-slate-700 text-white rounded-lg border border-slate-600 focus:border-blue-500 focus:outline-none text-sm"
+                      />
+                      <button
+                        onClick={() => {
+                          inviteToParty(inviteName);
+                          setInviteName('');
+                        }}
+                        disabled={!inviteName.trim()}
+                        className="btn btn-primary btn-sm disabled:opacity-50"
+                      >
+                        Invite
+                      </button>
+                    </div>
+                  ) : (
+                    <div className="text-xs text-gray-400">Your party leader picks the queue</div>
+                  )}
+                  {party && (
+                    <button onClick={leaveParty} className="w-full btn btn-outline btn-sm mt-3">
+                      Leave Party
+                    </button>
+                  )}
+                </div>
+
+                {/* Live Games */}
+                <div className="card mt-6">
+                  <div className="flex justify-between items-center mb-4">
+                    <h3 className="text-lg font-bold text-white">Live Games</h3>
+                    <button onClick={() => fetchLiveGames()} className="text-gray-400 hover:text-white" title="Refresh">
+                      <RefreshCw className="w-4 h-4" />
+                    </button>
+                  </div>
+                  <div className="space-y-2">
+                    {liveGames.map(game => (
+                      <div key={game.sessionId} className="p-3 bg-slate-700 rounded-lg">
+                        <div className="flex justify-between items-center text-sm">
+                          <span className="text-white font-medium capitalize">{game.gameType}</span>
+                          <span className="flex items-center gap-1 text-gray-400">
+                            <Eye className="w-3 h-3" /> {game.spectatorCount}
+                          </span>
+                        </div>
+                        <div className="text-xs text-gray-400 mb-2">
+                          {game.players.map(p => p.username).join(' vs ')} • {game.matchType} • move {game.moveCount}
+                        </div>
+                        <button
+                          onClick={() => spectateGame({ sessionId: game.sessionId })}
+                          className="w-full btn btn-secondary btn-sm"
+                        >
+                          Watch
+                        </button>
+                      </div>
+                    ))}
+                    {liveGames.length === 0 && (
+                      <div className="text-sm text-gray-500 text-center py-2">No games in progress</div>
+                    )}
                   </div>
                 </div>
 
@@ -165,8 +318,21 @@ const GameLobby: React.FC = () => {
                 <div className="card">
                   <div className="flex justify-between items-center mb-6">
                     <h3 className="text-2xl font-bold text-white">Create New Game</h3>
-                    <div className="text-sm text-gray-400">
-                      {filteredGameTypes.length} of {gameTypes.length} games
+                    <div className="flex items-center gap-4 text-sm text-gray-400">
+                      <label className="flex items-center gap-2">
+                        <Bot className="w-4 h-4" />
+                        Computer
+                        <select
+                          value={botDifficulty}
+                          onChange={(e) => setBotDifficulty(e.target.value as BotDifficulty)}
+                          className="bg-slate-700 text-white rounded px-2 py-1"
+                        >
+                          <option value="easy">Easy</option>
+                          <option value="medium">Medium</option>
+                          <option value="hard">Hard</option>
+                        </select>
+                      </label>
+                      <span>{filteredGameTypes.length} of {gameTypes.length} games</span>
                     </div>
                   </div>
 
@@ -229,7 +395,9 @@ const GameLobby: React.FC = () => {
                           <div className="flex gap-2">
                             <button
                               onClick={() => handleQuickMatch(game.id)}
-                              className="flex-1 btn btn-primary py-2 text-sm"
+                              disabled={!isPartyLeader || !partyFits(game)}
+                              title={partyFits(game) ? undefined : `Your party is too big for ${game.name}`}
+                              className="flex-1 btn btn-primary py-2 text-sm disabled:opacity-50"
                             >
                               Quick Match
                             </button>
@@ -240,6 +408,12 @@ const GameLobby: React.FC = () => {
                               Create Room
                             </button>
                           </div>
+                          <button
+                            onClick={() => playVsComputer(game.id, botDifficulty)}
+                            className="w-full btn btn-outline py-2 text-sm mt-2"
+                          >
+                            Play vs Computer
+                          </button>
                         </motion.div>
                       ))}
                     </div>
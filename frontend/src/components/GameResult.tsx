@@ -1,6 +1,8 @@
 import React, { useState, useEffect } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
+import { useNavigate } from 'react-router-dom';
 import { useAuthStore } from '../stores/authStore';
+import { useGameStore } from '../stores/gameStore';
 import type { GameResult as GameResultType, GameStats, PlayerGameStats, Achievement } from '../types/game';
 import { Trophy, Target, Clock, Zap, Award, TrendingUp, Users } from 'lucide-react';
 
@@ -11,23 +13,29 @@ interface GameResultProps {
   onPlayAgain: () => void;
 }
 
+// In team games everyone on the winner's side placed first
+const wonGame = (result: GameResultType, playerId?: string) =>
+  !!result.winner && !!playerId && (result.winner.id === playerId || result.placements?.[playerId] === 1);
+
 const GameResult: React.FC<GameResultProps> = ({ result, stats, onContinue, onPlayAgain }) => {
   const [showStats, setShowStats] = useState(false);
   const [currentTab, setCurrentTab] = useState<'overview' | 'performance' | 'analysis'>('overview');
   const { user } = useAuthStore();
+  const navigate = useNavigate();
   const [achievementsEarned, setAchievementsEarned] = useState<Achievement[]>([]);
-  const [eloChange, setEloChange] = useState(0);
-  const [newRank, setNewRank] = useState<number | null>(null);
+  const eloChange = useGameStore(state => state.eloChange?.eloChange ?? 0);
+  const eloAfter = useGameStore(state => state.eloChange?.eloAfter);
 
-  const isWinner = result.winner?.id === user?.id;
-  const isDraw = result.result === 'draw';
+  const isWinner = wonGame(result, user?.id);
+  // A free-for-all forfeit or timeout has no winner: everyone but the player placed last drew
+  const isDraw = result.result === 'draw' || (!result.winner && result.placements?.[user?.id ?? ''] === 1);
   const userStats = stats.playerStats.find(p => p.playerId === user?.id);
 
   useEffect(() => {
     // Animate stats reveal after 2 seconds
     const timer = setTimeout(() => setShowStats(true), 2000);
     
-    // Fetch achievements and ELO changes
+    // Fetch achievements; the ELO change arrives over the socket
     fetchPostGameData();
     
     return () => clearTimeout(timer);
@@ -46,19 +54,6 @@ const GameResult: React.FC<GameResultProps> = ({ result, stats, onContinue, onPl
         const data = await achievementsResponse.json();
         setAchievementsEarned(data.achievements || []);
       }
-
-      // Fetch ELO change for this match
-      const eloResponse = await fetch(
-        `${import.meta.env.VITE_API_URL}/api/matches/${stats.gameId}/elo`,
-        {
-          headers: { 'Authorization': `Bearer ${localStorage.getItem('token')}` }
-        }
-      );
-      if (eloResponse.ok) {
-        const data = await eloResponse.json();
-        setEloChange(data.eloChange || 0);
-        setNewRank(data.newRank || null);
-      }
     } catch (error) {
       console.error('Error fetching post-game data:', error);
     }
@@ -153,9 +148,9 @@ const GameResult: React.FC<GameResultProps> = ({ result, stats, onContinue, onPl
                     <span className="font-bold">
                       {eloChange > 0 ? '+' : ''}{eloChange} ELO
                     </span>
-                    {newRank && (
+                    {eloAfter !== undefined && (
                       <span className="text-sm opacity-75">
-                        (Rank #{newRank})
+                        ({eloAfter})
                       </span>
                     )}
                   </div>
@@ -219,6 +214,15 @@ const GameResult: React.FC<GameResultProps> = ({ result, stats, onContinue, onPl
           >
             Play Again
           </button>
+          <button
+            onClick={() => {
+              onContinue();
+              navigate(`/replay/${stats.gameId}`);
+            }}
+            className="btn btn-secondary px-8 py-3 text-lg font-medium"
+          >
+            Watch Replay
+          </button>
           <button
             onClick={onContinue}
             className="btn btn-secondary px-8 py-3 text-lg font-medium"
@@ -254,7 +258,7 @@ const OverviewTab: React.FC<{
             animate={{ opacity: 1, x: 0 }}
             transition={{ delay: 0.3 * index }}
             className={`bg-slate-700 rounded-lg p-6 border-2 ${
-              result.winner?.id === player.playerId
+              wonGame(result, player.playerId)
                 ? 'border-green-400'
                 : result.result === 'draw'
                 ? 'border-yellow-400'
@@ -267,7 +271,7 @@ const OverviewTab: React.FC<{
                 <p className="text-gray-400">{player.symbol || `Player ${index + 1}`}</p>
               </div>
               <div className="text-right">
-                {result.winner?.id === player.playerId && (
+                {wonGame(result, player.playerId) && (
                   <Trophy className="w-6 h-6 text-yellow-400 mb-1" />
                 )}
                 <div className="text-2xl font-bold text-white">
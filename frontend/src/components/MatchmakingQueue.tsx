@@ -1,6 +1,6 @@
 import React, { useState, useEffect } from 'react';
 import { motion } from 'framer-motion';
-import { Clock, Users, Zap, X, Target, TrendingUp } from 'lucide-react';
+import { Bot, Check, Clock, Users, Zap, X, Target, TrendingUp } from 'lucide-react';
 import { useGameStore } from '../stores/gameStore';
 
 const MatchmakingQueue: React.FC = () => {
@@ -9,14 +9,21 @@ const MatchmakingQueue: React.FC = () => {
     estimatedWaitTime,
     leaveMatchmakingQueue,
     searchingForMatch,
+    readyCheck,
+    currentUserId,
+    acceptMatch,
+    declineMatch,
     isInQueue,
     currentMatchType,
     userStatistics,
     addNotification,
+    acceptBotOffer,
+    declineBotOffer,
   } = useGameStore();
 
   const [waitTime, setWaitTime] = useState(0);
   const [queueAnimation, setQueueAnimation] = useState(0);
+  const [secondsToAccept, setSecondsToAccept] = useState(0);
 
   useEffect(() => {
     // Reset wait time when joining queue
@@ -37,6 +44,17 @@ const MatchmakingQueue: React.FC = () => {
     };
   }, [isInQueue, searchingForMatch]);
 
+  useEffect(() => {
+    // Count down the ready check; the server cancels the match when it runs out
+    if (!readyCheck) return;
+    const tick = () => setSecondsToAccept(Math.max(0, Math.ceil((readyCheck.deadline - Date.now()) / 1000)));
+    tick();
+    const interval = setInterval(tick, 250);
+    return () => clearInterval(interval);
+  }, [readyCheck]);
+
+  const hasAccepted = !!readyCheck && !!currentUserId && readyCheck.accepted.includes(currentUserId);
+
   useEffect(() => {
     // Animate queue count changes
     let animationInterval: NodeJS.Timeout;
@@ -64,7 +82,7 @@ const MatchmakingQueue: React.FC = () => {
 
   const getQueueStatusText = () => {
     if (searchingForMatch) {
-      return 'Match found! Preparing game...';
+      return hasAccepted ? 'Waiting for other players to accept...' : 'Match found! Accept to join the game.';
     }
     if (!queueStatus) {
       return 'Connecting to matchmaking...';
@@ -174,6 +192,31 @@ const MatchmakingQueue: React.FC = () => {
           )}
         </div>
 
+        {/* Bot Backfill Offer */}
+        {queueStatus?.botOffer && !searchingForMatch && (
+          <motion.div
+            initial={{ opacity: 0, y: -10 }}
+            animate={{ opacity: 1, y: 0 }}
+            className="bg-purple-500/20 border border-purple-500/30 rounded-lg p-4 mb-6"
+          >
+            <div className="flex items-center gap-2 mb-2">
+              <Bot className="w-5 h-5 text-purple-400" />
+              <h3 className="text-purple-300 font-bold">No opponents around</h3>
+            </div>
+            <p className="text-sm text-gray-300 mb-3">
+              Play a casual game against {queueStatus.botOffer.username} ({queueStatus.botOffer.elo}) instead?
+            </p>
+            <div className="flex gap-2">
+              <button onClick={acceptBotOffer} className="flex-1 btn btn-primary btn-sm">
+                Play Bot
+              </button>
+              <button onClick={declineBotOffer} className="flex-1 btn btn-outline btn-sm">
+                Keep Waiting
+              </button>
+            </div>
+          </motion.div>
+        )}
+
         {/* Queue Info */}
         {queueStatus && !searchingForMatch && (
           <div className="space-y-4 mb-6">
@@ -227,6 +270,12 @@ const MatchmakingQueue: React.FC = () => {
                 </div>
               )}
 
+              {currentMatchType === 'ranked' && queueStatus.provisional && (
+                <p className="text-xs text-yellow-400">
+                  Provisional rating: your rating moves faster until you have played more ranked games
+                </p>
+              )}
+
               <div className="flex items-center justify-between text-sm">
                 <div className="flex items-center gap-2 text-gray-400">
                   <Target className="w-4 h-4" />
@@ -256,26 +305,42 @@ const MatchmakingQueue: React.FC = () => {
           </div>
         )}
 
-        {/* Match Found Actions */}
-        {searchingForMatch && (
+        {/* Ready Check */}
+        {searchingForMatch && readyCheck && (
           <div className="bg-green-500/20 border border-green-500/30 rounded-lg p-4 mb-6">
             <div className="text-center">
-              <h3 className="text-green-400 font-bold mb-2">Match found!</h3>
-              <p className="text-green-300 text-sm">Preparing your game, please wait...</p>
+              <h3 className="text-green-400 font-bold mb-2">
+                {readyCheck.accepted.length}/{readyCheck.totalPlayers} players ready
+              </h3>
+              <p className="text-green-300 text-sm">
+                {secondsToAccept}s left to accept. Declining puts you on a short queue cooldown.
+              </p>
             </div>
           </div>
         )}
 
-        {/* --- FIX: Remove accept/decline actions, just show loading spinner if searchingForMatch --- */}
         {searchingForMatch ? (
-          <div className="flex justify-center items-center py-4">
-            <motion.div
-              animate={{ rotate: 360 }}
-              transition={{ duration: 1, repeat: Infinity, ease: 'linear' }}
-              className="w-10 h-10 border-4 border-green-400 border-t-transparent rounded-full"
-            />
-            <span className="ml-4 text-green-300 font-medium">Joining game...</span>
-          </div>
+          hasAccepted ? (
+            <div className="flex justify-center items-center py-4">
+              <motion.div
+                animate={{ rotate: 360 }}
+                transition={{ duration: 1, repeat: Infinity, ease: 'linear' }}
+                className="w-10 h-10 border-4 border-green-400 border-t-transparent rounded-full"
+              />
+              <span className="ml-4 text-green-300 font-medium">Waiting for opponents...</span>
+            </div>
+          ) : (
+            <div className="flex gap-3">
+              <button onClick={acceptMatch} className="flex-1 flex items-center justify-center btn btn-primary">
+                <Check className="w-4 h-4 mr-2" />
+                Accept
+              </button>
+              <button onClick={declineMatch} className="flex-1 flex items-center justify-center btn btn-secondary">
+                <X className="w-4 h-4 mr-2" />
+                Decline
+              </button>
+            </div>
+          )
         ) : (
           <button
             onClick={() => {
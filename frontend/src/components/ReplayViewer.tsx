@@ -0,0 +1,277 @@
+import React, { useEffect, useState } from 'react';
+import { motion } from 'framer-motion';
+import { Link, useLocation, useParams } from 'react-router-dom';
+import { ChevronLeft, ChevronRight, Pause, Play, SkipBack, SkipForward } from 'lucide-react';
+import GameBoard from './GameBoard';
+import type { GameState } from '../types';
+import type { MatchHistory } from '../types/game';
+
+interface ReplayMove {
+  moveNumber: number;
+  playerId: string;
+  moveData: Record<string, unknown>;
+  timestamp: string;
+}
+
+interface ReplayData {
+  sessionId: string;
+  gameType: string;
+  matchType: 'casual' | 'ranked';
+  status: string;
+  startedAt: string | null;
+  finishedAt: string | null;
+  winnerId: string | null;
+  players: { id: string; username: string; playerOrder: number }[];
+  moves: ReplayMove[];
+  frames: Record<string, unknown>[]; // board before the first move, then after each move
+}
+
+const SPEEDS = [0.5, 1, 2, 4];
+
+type Square = { row: number; col: number };
+
+const formatSquare = (square: Square) => `${square.row + 1},${square.col + 1}`;
+
+// Short label for a move; chess frames carry SAN, everything else is described from the move data
+const describeMove = (move: ReplayMove, frame: Record<string, unknown> | undefined) => {
+  const history = frame?.history;
+  if (Array.isArray(history) && typeof history[move.moveNumber - 1] === 'string') {
+    return history[move.moveNumber - 1] as string;
+  }
+
+  const { moveData } = move;
+  if (typeof moveData.move === 'string') return moveData.move;
+  if (typeof moveData.position === 'number') return `Cell ${moveData.position + 1}`;
+  if (typeof moveData.column === 'number') return `Column ${moveData.column + 1}`;
+  if (typeof moveData.from === 'string' && typeof moveData.to === 'string') return `${moveData.from}-${moveData.to}`;
+  if (moveData.from && moveData.to) {
+    return `${formatSquare(moveData.from as Square)} → ${formatSquare(moveData.to as Square)}`;
+  }
+  return JSON.stringify(moveData);
+};
+
+const ReplayViewer: React.FC = () => {
+  const { sessionId } = useParams<{ sessionId: string }>();
+  const location = useLocation();
+  const match = (location.state as { match?: MatchHistory } | null)?.match;
+
+  const [replay, setReplay] = useState<ReplayData | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [position, setPosition] = useState(0); // number of moves applied
+  const [isPlaying, setIsPlaying] = useState(false);
+  const [speed, setSpeed] = useState(1);
+
+  useEffect(() => {
+    const fetchReplay = async () => {
+      try {
+        const response = await fetch(
+          `${import.meta.env.VITE_API_URL}/api/matches/${sessionId}/replay`,
+          {
+            headers: { 'Authorization': `Bearer ${localStorage.getItem('token')}` }
+          }
+        );
+
+        const data = await response.json();
+        if (!response.ok || !data.success) {
+          setError(data.error || 'Failed to load replay');
+          return;
+        }
+        setReplay(data.data);
+        setPosition(0);
+      } catch (error) {
+        console.error('Error fetching replay:', error);
+        setError('Failed to load replay');
+      }
+    };
+
+    fetchReplay();
+  }, [sessionId]);
+
+  const totalMoves = replay?.moves.length ?? 0;
+
+  // Advance one move per tick while playing
+  useEffect(() => {
+    if (!isPlaying) return;
+
+    const interval = setInterval(() => {
+      setPosition(current => Math.min(current + 1, totalMoves));
+    }, 1000 / speed);
+    return () => clearInterval(interval);
+  }, [isPlaying, speed, totalMoves]);
+
+  useEffect(() => {
+    if (isPlaying && position >= totalMoves) {
+      setIsPlaying(false);
+    }
+  }, [isPlaying, position, totalMoves]);
+
+  const stepTo = (target: number) => {
+    setIsPlaying(false);
+    setPosition(Math.max(0, Math.min(target, totalMoves)));
+  };
+
+  const togglePlay = () => {
+    if (!isPlaying && position >= totalMoves) {
+      setPosition(0);
+    }
+    setIsPlaying(!isPlaying);
+  };
+
+  // Arrow keys step through the game, space toggles playback
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key === 'ArrowLeft') stepTo(position - 1);
+      if (event.key === 'ArrowRight') stepTo(position + 1);
+      if (event.key === ' ') {
+        event.preventDefault();
+        togglePlay();
+      }
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  });
+
+  if (error) {
+    return (
+      <div className="max-w-4xl mx-auto px-4 py-8 text-center">
+        <div className="text-red-400 mb-4">{error}</div>
+        <Link to="/stats" className="btn btn-secondary">Back to Statistics</Link>
+      </div>
+    );
+  }
+
+  if (!replay) {
+    return <div className="text-center text-gray-400 py-8">Loading replay...</div>;
+  }
+
+  const players = [...replay.players].sort((a, b) => a.playerOrder - b.playerOrder);
+  const winner = players.find(p => p.id === replay.winnerId) ?? null;
+  const isLastFrame = position === totalMoves;
+  const gameState = {
+    ...replay.frames[position],
+    players,
+    moveCount: position,
+    isFinished: isLastFrame && replay.status === 'finished',
+    winner: isLastFrame ? winner : null
+  } as unknown as GameState;
+
+  return (
+    <div className="max-w-6xl mx-auto px-4 py-8">
+      {/* Header */}
+      <div className="flex justify-between items-center mb-6">
+        <div>
+          <h1 className="text-2xl font-bold text-white capitalize">{replay.gameType} Replay</h1>
+          <p className="text-gray-400">
+            {players.map(p => p.username).join(' vs ')} • {replay.matchType}
+            {replay.startedAt && ` • ${new Date(replay.startedAt).toLocaleString()}`}
+          </p>
+        </div>
+        <div className="flex items-center gap-4">
+          {match && (
+            <div className="text-right">
+              <div className="text-white font-bold uppercase">{match.result}</div>
+              <div className={`text-sm ${match.eloChange > 0 ? 'text-green-400' : match.eloChange < 0 ? 'text-red-400' : 'text-gray-400'}`}>
+                {match.eloChange > 0 ? '+' : ''}{match.eloChange} ELO
+              </div>
+            </div>
+          )}
+          <Link to="/stats" className="btn btn-outline btn-sm">Back</Link>
+        </div>
+      </div>
+
+      <div className="grid lg:grid-cols-3 gap-8">
+        {/* Board and Controls */}
+        <div className="lg:col-span-2">
+          <div className="card">
+            <GameBoard gameType={replay.gameType} gameState={gameState} isMyTurn={false} mySymbol="X" />
+
+            <div className="mt-6 space-y-4">
+              <input
+                type="range"
+                min={0}
+                max={totalMoves}
+                value={position}
+                onChange={(e) => stepTo(parseInt(e.target.value, 10))}
+                className="w-full"
+              />
+
+              <div className="flex items-center justify-between">
+                <div className="flex items-center gap-2">
+                  <button onClick={() => stepTo(0)} className="btn btn-secondary btn-sm" title="First move">
+                    <SkipBack className="w-4 h-4" />
+                  </button>
+                  <button onClick={() => stepTo(position - 1)} className="btn btn-secondary btn-sm" title="Step back">
+                    <ChevronLeft className="w-4 h-4" />
+                  </button>
+                  <button onClick={togglePlay} className="btn btn-primary btn-sm" title={isPlaying ? 'Pause' : 'Play'}>
+                    {isPlaying ? <Pause className="w-4 h-4" /> : <Play className="w-4 h-4" />}
+                  </button>
+                  <button onClick={() => stepTo(position + 1)} className="btn btn-secondary btn-sm" title="Step forward">
+                    <ChevronRight className="w-4 h-4" />
+                  </button>
+                  <button onClick={() => stepTo(totalMoves)} className="btn btn-secondary btn-sm" title="Last move">
+                    <SkipForward className="w-4 h-4" />
+                  </button>
+                </div>
+
+                <div className="flex items-center gap-3 text-sm text-gray-400">
+                  <span>Move {position} / {totalMoves}</span>
+                  <select
+                    value={speed}
+                    onChange={(e) => setSpeed(parseFloat(e.target.value))}
+                    className="bg-slate-700 text-white rounded px-2 py-1"
+                  >
+                    {SPEEDS.map(option => (
+                      <option key={option} value={option}>{option}x</option>
+                    ))}
+                  </select>
+                </div>
+              </div>
+            </div>
+          </div>
+        </div>
+
+        {/* Move List */}
+        <div className="lg:col-span-1">
+          <div className="card">
+            <h3 className="text-xl font-bold text-white mb-4">Moves</h3>
+            <div className="space-y-1 max-h-[32rem] overflow-y-auto">
+              <button
+                onClick={() => stepTo(0)}
+                className={`w-full text-left px-3 py-1 rounded ${position === 0 ? 'bg-blue-500/20 text-white' : 'text-gray-400 hover:bg-slate-700'}`}
+              >
+                Start
+              </button>
+              {replay.moves.map(move => {
+                const player = players.find(p => p.id === move.playerId);
+                return (
+                  <motion.button
+                    key={move.moveNumber}
+                    layout
+                    onClick={() => stepTo(move.moveNumber)}
+                    className={`
+                      w-full text-left px-3 py-1 rounded flex justify-between
+                      ${position === move.moveNumber ? 'bg-blue-500/20 text-white' : 'text-gray-400 hover:bg-slate-700'}
+                    `}
+                  >
+                    <span>
+                      <span className="text-gray-500 mr-2">{move.moveNumber}.</span>
+                      {describeMove(move, replay.frames[totalMoves])}
+                    </span>
+                    <span className="text-xs text-gray-500">{player?.username}</span>
+                  </motion.button>
+                );
+              })}
+              {totalMoves === 0 && (
+                <div className="text-center text-gray-400 py-4">No moves were recorded</div>
+              )}
+            </div>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ReplayViewer;
@@ -1,5 +1,6 @@
 import React, { useState, useEffect } from 'react';
 import { motion } from 'framer-motion';
+import { Link } from 'react-router-dom';
 import { 
     Trophy, Target, Clock, TrendingUp, Award, 
     BarChart3, Activity 
@@ -289,6 +290,37 @@ const StatsDashboard: React.FC = () => {
               </div>
             </motion.div>
 
+            {/* Ratings by Game */}
+            {stats.ratings && stats.ratings.length > 0 && (
+              <motion.div
+                initial={{ opacity: 0, x: 20 }}
+                animate={{ opacity: 1, x: 0 }}
+                transition={{ delay: 0.15 }}
+                className="bg-slate-800 rounded-lg p-6"
+              >
+                <h3 className="text-lg font-bold text-white mb-4">Ratings by Game</h3>
+
+                <div className="space-y-3">
+                  {stats.ratings.map((rating) => (
+                    <div key={`${rating.gameType}-${rating.matchType}`} className="flex justify-between items-center">
+                      <div>
+                        <div className="text-white font-medium capitalize">{rating.gameType}</div>
+                        <div className="text-xs text-gray-400 capitalize">
+                          {rating.matchType} · #{rating.rank} · {rating.gamesPlayed} games
+                        </div>
+                      </div>
+                      <div className="text-right">
+                        <div className="text-orange-400 font-bold">{rating.rating}</div>
+                        {rating.provisional && (
+                          <div className="text-xs text-yellow-400">Provisional</div>
+                        )}
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              </motion.div>
+            )}
+
             {/* Recent Achievements */}
             <motion.div
               initial={{ opacity: 0, x: 20 }}
@@ -437,7 +469,12 @@ const MatchHistoryItem: React.FC<{ match: MatchHistory }> = ({ match }) => {
   };
 
   return (
-    <div className="flex items-center justify-between p-4 bg-slate-700 rounded-lg">
+    <Link
+      to={`/replay/${match.sessionId}`}
+      state={{ match }}
+      title="Watch replay"
+      className="flex items-center justify-between p-4 bg-slate-700 rounded-lg hover:bg-slate-600 transition-colors"
+    >
       <div className="flex items-center gap-4">
         <div className={`px-3 py-1 rounded-full border text-xs font-bold uppercase ${getResultColor()}`}>
           {match.result}
@@ -459,7 +496,7 @@ const MatchHistoryItem: React.FC<{ match: MatchHistory }> = ({ match }) => {
           {new Date(match.createdAt).toLocaleDateString()}
         </div>
       </div>
-    </div>
+    </Link>
   );
 };
 
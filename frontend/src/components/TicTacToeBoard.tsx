@@ -31,10 +31,15 @@ const TicTacToeBoard: React.FC<TicTacToeBoardProps> = ({
   isMyTurn, 
   mySymbol 
 }) => {
-  const { makeMove } = useGameStore();
+  const { makeMove, legalMoves } = useGameStore();
+
+  // The server tells us which cells are playable
+  const legalPositions = new Set(legalMoves.map(move => move.position));
+  const canPlay = (position: number) =>
+    isMyTurn && !gameState.isFinished && legalPositions.has(position);
 
   const handleCellClick = (position: number) => {
-    if (!isMyTurn || gameState.board[position] !== null || gameState.isFinished) {
+    if (!canPlay(position)) {
       return;
     }
     
@@ -66,15 +71,15 @@ const TicTacToeBoard: React.FC<TicTacToeBoardProps> = ({
             key={index}
             initial={{ scale: 0 }}
             animate={{ scale: 1 }}
-            whileHover={!cell && isMyTurn && !gameState.isFinished ? { scale: 1.05 } : {}}
-            whileTap={!cell && isMyTurn && !gameState.isFinished ? { scale: 0.95 } : {}}
+            whileHover={canPlay(index) ? { scale: 1.05 } : {}}
+            whileTap={canPlay(index) ? { scale: 0.95 } : {}}
             onClick={() => handleCellClick(index)}
-            disabled={!!cell || !isMyTurn || gameState.isFinished}
+            disabled={!canPlay(index)}
             className={`
               aspect-square bg-slate-700 rounded-lg text-4xl font-bold
               border-2 transition-all duration-200
-              ${!cell && isMyTurn && !gameState.isFinished 
-                ? 'hover:bg-slate-600 border-slate-600 hover:border-blue-500 cursor-pointer' 
+              ${canPlay(index) 
+                ? 'hover:bg-slate-600 border-blue-500/40 hover:border-blue-500 cursor-pointer' 
                 : 'border-slate-600'
               }
               ${cell === 'X' ? 'text-blue-400' : cell === 'O' ? 'text-red-400' : 'text-gray-500'}
@@ -13,6 +13,7 @@ export interface GameType {
   description: string;
   min_players: number;
   max_players: number;
+  team_size?: number; // players per side in team games
   estimated_duration: string;
   difficulty_level: 'easy' | 'medium' | 'hard';
   icon?: string;
@@ -23,6 +24,27 @@ export interface GameType {
   updated_at: Date;
 }
 
+export type BotDifficulty = 'easy' | 'medium' | 'hard';
+
+export interface LiveGame {
+  sessionId: string;
+  roomCode: string;
+  gameType: string;
+  matchType: 'casual' | 'ranked';
+  players: { id: string; username: string; elo: number }[];
+  spectatorCount: number;
+  moveCount: number;
+  startedAt: string;
+}
+
+export interface ChatMessage {
+  userId: string;
+  username: string;
+  message: string;
+  isSpectator: boolean;
+  timestamp: string;
+}
+
 export interface QueueStatus {
   gameType: string;
   matchType: 'casual' | 'ranked';
@@ -30,6 +52,44 @@ export interface QueueStatus {
   averageElo: number;
   estimatedWaitTime: number; // in seconds
   isInQueue: boolean;
+  waitTime?: number; // seconds this player has been queued
+  provisional?: boolean; // ranked rating still uncertain after too few games
+  botOffer?: BotOffer | null; // casual queues offer a bot after a long wait
+}
+
+// Matched players confirm before the game starts; the match is cancelled if anyone declines or times out
+export interface ReadyCheck {
+  sessionId: string;
+  deadline: number; // epoch ms
+  totalPlayers: number;
+  accepted: string[]; // user ids
+}
+
+// Sent once a finished game's result is stored; casual games report a change of 0
+export interface EloChange {
+  userId: string;
+  eloBefore: number;
+  eloAfter: number;
+  eloChange: number;
+}
+
+export interface BotOffer {
+  difficulty: BotDifficulty;
+  username: string;
+  elo: number;
+}
+
+// Friends who queue together; the leader joins queues on everyone's behalf
+export interface Party {
+  id: string;
+  leaderId: string;
+  members: { id: string; username: string }[];
+  pendingInvites: number;
+}
+
+export interface PartyInvite {
+  partyId: string;
+  from: { id: string; username: string };
 }
 
 interface GameStoreState {
@@ -45,20 +105,35 @@ interface GameStoreState {
   currentRoom: GameRoom | null;
   gameState: GameState | null;
   isMyTurn: boolean;
+  legalMoves: Record<string, unknown>[]; // moves the server accepts from us right now
+  takebackRequest: { playerId: string; playerName: string } | null;
+  drawOffer: { playerId: string; playerName: string } | null;
   currentUserId: string | null;
+  chatMessages: ChatMessage[];
+
+  // Spectating
+  isSpectating: boolean;
+  spectatorCount: number;
+  liveGames: LiveGame[];
   
   // Matchmaking
   isInQueue: boolean;
   queueStatus: QueueStatus | null;
   currentMatchType: 'casual' | 'ranked';
   searchingForMatch: boolean;
+  readyCheck: ReadyCheck | null;
   estimatedWaitTime: number;
   matchData: unknown | null;
-  
+
+  // Party
+  party: Party | null;
+  partyInvites: PartyInvite[];
+
   // Game Results & Statistics
   gameResult: GameResult | null;
   gameStats: GameStats | null;
   showResultScreen: boolean;
+  eloChange: EloChange | null;
   userStatistics: UserStatistics | null;
   matchHistory: MatchHistory[];
   ratingHistory: RatingHistory[];
@@ -81,16 +156,36 @@ interface GameStoreState {
   leaveMatchmakingQueue: () => void;
   acceptMatch: () => void;
   declineMatch: () => void;
-  
+  playVsComputer: (gameType: string, difficulty: BotDifficulty) => void;
+  acceptBotOffer: () => void;
+  declineBotOffer: () => void;
+
+  // Actions - Party
+  inviteToParty: (username: string) => void;
+  acceptPartyInvite: (partyId: string) => void;
+  declinePartyInvite: (partyId: string) => void;
+  leaveParty: () => void;
+  kickFromParty: (userId: string) => void;
+
   // Actions - Game Room
-  createRoom: (gameType: string, matchType: 'casual' | 'ranked') => void;
+  createRoom: (gameType: string) => void; // private rooms are always casual
   joinRoom: (roomCode: string) => void;
   leaveRoom: () => void;
+
+  // Actions - Spectating
+  fetchLiveGames: (gameType?: string) => Promise<void>;
+  spectateGame: (target: { sessionId?: string; roomCode?: string }) => void;
   
   // Actions - Gameplay
   makeMove: (move: Record<string, unknown>) => void;
+  fetchLegalMoves: () => void;
+  requestTakeback: () => void;
+  respondToTakeback: (accept: boolean) => void;
+  offerDraw: () => void;
+  respondToDraw: (accept: boolean) => void;
   forfeitGame: () => void;
   requestRematch: () => void;
+  sendChatMessage: (message: string) => void;
   
   // Actions - Results & Stats
   setGameResult: (result: GameResult, stats: GameStats) => void;
@@ -116,20 +211,31 @@ export const useGameStore = create<GameStoreState>((set, get) => ({
   currentRoom: null,
   gameState: null,
   isMyTurn: false,
+  legalMoves: [],
+  takebackRequest: null,
+  drawOffer: null,
   currentUserId: null,
+  chatMessages: [],
+  isSpectating: false,
+  spectatorCount: 0,
+  liveGames: [],
   isInQueue: false,
   queueStatus: null,
   currentMatchType: 'casual',
   searchingForMatch: false,
+  readyCheck: null,
   estimatedWaitTime: 0,
   gameResult: null,
   gameStats: null,
   showResultScreen: false,
+  eloChange: null,
   userStatistics: null,
   matchHistory: [],
   ratingHistory: [],
   achievements: [],
   matchData: null,
+  party: null,
+  partyInvites: [],
   isLoading: false,
   error: null,
   notifications: [],
@@ -185,14 +291,20 @@ export const useGameStore = create<GameStoreState>((set, get) => ({
       get().addNotification(`Joined ${data.gameType} ${data.matchType} queue`);
     });
 
-    socket.on('queue-left', () => {
-      set({ 
-        isInQueue: false, 
+    socket.on('queue-left', (data) => {
+      set({
+        isInQueue: false,
         queueStatus: null,
         searchingForMatch: false,
         estimatedWaitTime: 0
       });
-      get().addNotification('Left matchmaking queue');
+      get().addNotification(
+        data?.reason === 'party-member-disconnected'
+          ? 'A party member disconnected. Your party left the queue'
+          : data?.reason === 'party-member-left'
+            ? 'Your party left the queue'
+            : 'Left matchmaking queue'
+      );
     });
 
     socket.on('queue-status-update', (status) => {
@@ -203,19 +315,23 @@ export const useGameStore = create<GameStoreState>((set, get) => ({
       console.log('Received match-found event:', data);
       set({ 
         searchingForMatch: true, 
-        matchData: data
+        matchData: data,
+        readyCheck: {
+          sessionId: data.sessionId,
+          deadline: Date.now() + data.acceptTimeout,
+          totalPlayers: data.players.length,
+          accepted: []
+        }
       });
       get().addNotification('Match found! Accept to join.');
       playSound('matchFound');
-      
-      // Optional: Auto-accept after timeout
-      setTimeout(() => {
-        const { searchingForMatch } = get();
-        if (searchingForMatch) {
-          get().addNotification('Match auto-accepted');
-          get().acceptMatch();
-        }
-      }, 30000); // 30 second timeout
+    });
+
+    socket.on('match-ready-update', (data) => {
+      const { readyCheck } = get();
+      if (readyCheck && readyCheck.sessionId === data.sessionId) {
+        set({ readyCheck: { ...readyCheck, accepted: data.accepted } });
+      }
     });
     
     socket.on('match-accepted', (data) => {
@@ -223,6 +339,7 @@ export const useGameStore = create<GameStoreState>((set, get) => ({
         isInQueue: false, 
         queueStatus: null,
         searchingForMatch: false,
+        readyCheck: null,
         currentRoom: {
           id: data.sessionId,
           code: data.roomCode,
@@ -230,19 +347,61 @@ export const useGameStore = create<GameStoreState>((set, get) => ({
           players: data.players,
           status: 'waiting',
           matchType: data.matchType
-        }
+        },
+        spectatorCount: data.spectatorCount ?? 0,
+        chatMessages: [],
+        eloChange: null
       });
 
       get().addNotification('Match joined! Game starting...');
     });
     
-    socket.on('match-declined', () => {
-      set({ 
-        searchingForMatch: false,
-        // Keep in queue to find another match
-        // Or remove from queue if you prefer
-      });
-      get().addNotification('Match declined. Searching for another opponent...');
+    socket.on('match-declined', (data) => {
+      set({ searchingForMatch: false, readyCheck: null, matchData: null });
+
+      // Players who accepted are put back at the front of the queue
+      if (data.requeued) {
+        get().addNotification('An opponent did not accept. Back in the queue...');
+        return;
+      }
+
+      set({ isInQueue: false, queueStatus: null, estimatedWaitTime: 0 });
+      if (data.reason === 'party-member-declined') {
+        get().addNotification('A party member did not accept. Your party left the queue');
+        return;
+      }
+      get().addNotification(
+        data.reason === 'timeout'
+          ? `Match not accepted in time. You can queue again in ${data.cooldown}s`
+          : `Match declined. You can queue again in ${data.cooldown}s`
+      );
+    });
+
+    // Party Events
+    socket.on('party-invite', (invite: PartyInvite) => {
+      set(state => ({
+        partyInvites: [...state.partyInvites.filter(i => i.partyId !== invite.partyId), invite]
+      }));
+      get().addNotification(`${invite.from.username} invited you to their party`);
+    });
+
+    socket.on('party-updated', (party: Party) => {
+      set(state => ({
+        party,
+        partyInvites: state.partyInvites.filter(i => i.partyId !== party.id)
+      }));
+    });
+
+    socket.on('party-left', () => {
+      set({ party: null });
+      get().addNotification('You left the party');
+    });
+
+    socket.on('party-disbanded', (data) => {
+      if (get().party?.id === data.partyId) {
+        set({ party: null });
+        get().addNotification('Your party was disbanded');
+      }
     });
     // Game Room Events
     socket.on('room-created', (data) => {
@@ -317,8 +476,10 @@ export const useGameStore = create<GameStoreState>((set, get) => ({
         } : null,
         gameState,
         isMyTurn: gameState.currentPlayerIndex !== undefined && 
-                  gameState.players[gameState.currentPlayerIndex]?.id === userId
+                  gameState.players[gameState.currentPlayerIndex]?.id === userId,
+        legalMoves: []
       }));
+      get().fetchLegalMoves();
       
       get().addNotification('Game started! Good luck!');
       playSound('gameStart');
@@ -329,8 +490,10 @@ export const useGameStore = create<GameStoreState>((set, get) => ({
       
       set({
         gameState,
-        isMyTurn: nextPlayer?.id === userId
+        isMyTurn: nextPlayer?.id === userId,
+        legalMoves: []
       });
+      get().fetchLegalMoves();
 
       if (move.playerId !== userId) {
         get().addNotification(`${move.playerName} made a move`);
@@ -338,15 +501,102 @@ export const useGameStore = create<GameStoreState>((set, get) => ({
       }
     });
 
+    socket.on('spectate-started', (data) => {
+      set({
+        currentRoom: {
+          id: data.sessionId,
+          code: data.roomCode,
+          gameType: data.gameType,
+          players: data.players,
+          status: 'playing',
+          matchType: data.matchType
+        },
+        gameState: data.gameState,
+        isMyTurn: false,
+        legalMoves: [],
+        takebackRequest: null,
+        drawOffer: null,
+        chatMessages: [],
+        isSpectating: true,
+        spectatorCount: data.spectatorCount
+      });
+      get().addNotification(`Watching ${data.players.map((p: { username: string }) => p.username).join(' vs ')}`);
+    });
+
+    socket.on('spectator-count', (data) => {
+      if (data.sessionId === get().currentRoom?.id) {
+        set({ spectatorCount: data.count });
+      }
+    });
+
+    socket.on('chat-message', (message: ChatMessage) => {
+      set((state) => ({ chatMessages: [...state.chatMessages, message].slice(-100) }));
+    });
+
+    socket.on('legal-moves', (data) => {
+      set({ legalMoves: data.moves || [] });
+    });
+
+    socket.on('takeback-requested', (data) => {
+      set({ takebackRequest: { playerId: data.playerId, playerName: data.playerName } });
+      if (data.playerId !== userId) {
+        get().addNotification(`${data.playerName} wants to take back their last move`);
+      }
+    });
+
+    socket.on('takeback-accepted', (data) => {
+      const { gameState, nextPlayer } = data;
+
+      set({
+        gameState,
+        isMyTurn: nextPlayer?.id === userId,
+        legalMoves: [],
+        takebackRequest: null
+      });
+      get().fetchLegalMoves();
+      get().addNotification('Move taken back');
+    });
+
+    socket.on('takeback-declined', (data) => {
+      set({ takebackRequest: null });
+      if (data.playerId === userId) {
+        get().addNotification(data.reason === 'expired' ? 'Takeback request expired' : 'Takeback request declined');
+      }
+    });
+
+    socket.on('draw-offered', (data) => {
+      set({ drawOffer: { playerId: data.playerId, playerName: data.playerName } });
+      if (data.playerId !== userId) {
+        get().addNotification(`${data.playerName} offers a draw`);
+      }
+    });
+
+    socket.on('draw-declined', (data) => {
+      set({ drawOffer: null });
+      if (data.playerId === userId) {
+        get().addNotification(data.reason === 'expired' ? 'Draw offer expired' : 'Draw offer declined');
+      }
+    });
+
     socket.on('game-ended', (data) => {
       const { result, stats, achievements } = data;
+
+      // Spectators stay on the final position; there is no result screen or stats for them
+      if (get().isSpectating) {
+        set({ gameState: data.gameState, takebackRequest: null, drawOffer: null });
+        get().addNotification(result.endReason || 'Game over');
+        return;
+      }
       
       set((state) => ({
         currentRoom: state.currentRoom ? {
           ...state.currentRoom,
           status: 'finished'
         } : null,
-        gameState: data.gameState
+        gameState: data.gameState,
+        legalMoves: [],
+        takebackRequest: null,
+        drawOffer: null
       }));
 
       // Update achievements if any were earned
@@ -364,6 +614,16 @@ export const useGameStore = create<GameStoreState>((set, get) => ({
       get().fetchMatchHistory(10);
     });
 
+    // Arrives after game-ended, once the result, ratings and stats are committed
+    socket.on('elo-change', (data) => {
+      const own = data.changes.find((change: EloChange) => change.userId === get().currentUserId);
+      if (!own) return;
+
+      set({ eloChange: own });
+      get().fetchUserStatistics();
+      get().fetchMatchHistory(10);
+    });
+
     socket.on('player-disconnected', (data) => {
       get().addNotification(`${data.playerName} disconnected`);
       
@@ -381,14 +641,21 @@ export const useGameStore = create<GameStoreState>((set, get) => ({
       playSound('rematchRequest');
     });
 
-    socket.on('rematch-accepted', () => {
-      // Reset game state for new match
-      set({
+    socket.on('rematch-accepted', (data) => {
+      // Reset game state for new match, which runs as a new session
+      set((state) => ({
+        currentRoom: state.currentRoom ? {
+          ...state.currentRoom,
+          id: data.sessionId,
+          code: data.roomCode,
+          status: 'waiting'
+        } : null,
         gameState: null,
         gameResult: null,
         gameStats: null,
-        showResultScreen: false
-      });
+        showResultScreen: false,
+        eloChange: null
+      }));
       get().addNotification('Rematch starting...');
     });
 
@@ -414,10 +681,16 @@ export const useGameStore = create<GameStoreState>((set, get) => ({
       isConnected: false, 
       currentRoom: null, 
       gameState: null,
+      isSpectating: false,
+      spectatorCount: 0,
+      chatMessages: [],
       isInQueue: false,
       queueStatus: null,
       searchingForMatch: false,
-      matchData: null
+      readyCheck: null,
+      matchData: null,
+      party: null,
+      partyInvites: []
     });
   },
 
@@ -476,8 +749,68 @@ export const useGameStore = create<GameStoreState>((set, get) => ({
     }
   },
 
+  // Casual practice game against a server-side bot; never rated
+  playVsComputer: (gameType, difficulty) => {
+    const { socket } = get();
+    if (socket) {
+      socket.emit('play-vs-computer', { gameType, difficulty });
+    }
+  },
+
+  acceptBotOffer: () => {
+    const { socket, queueStatus } = get();
+    if (socket && queueStatus?.botOffer) {
+      socket.emit('accept-bot-offer', { gameType: queueStatus.gameType });
+    }
+  },
+
+  declineBotOffer: () => {
+    const { socket, queueStatus } = get();
+    if (socket && queueStatus) {
+      socket.emit('decline-bot-offer', { gameType: queueStatus.gameType, matchType: queueStatus.matchType });
+      set({ queueStatus: { ...queueStatus, botOffer: null } });
+    }
+  },
+
+  // Party Actions
+  inviteToParty: (username) => {
+    const { socket } = get();
+    if (socket && username.trim()) {
+      socket.emit('party-invite', { username: username.trim() });
+    }
+  },
+
+  acceptPartyInvite: (partyId) => {
+    const { socket } = get();
+    if (socket) {
+      socket.emit('party-accept', { partyId });
+    }
+  },
+
+  declinePartyInvite: (partyId) => {
+    const { socket } = get();
+    if (socket) {
+      socket.emit('party-decline', { partyId });
+    }
+    set(state => ({ partyInvites: state.partyInvites.filter(i => i.partyId !== partyId) }));
+  },
+
+  leaveParty: () => {
+    const { socket } = get();
+    if (socket && get().party) {
+      socket.emit('party-leave');
+    }
+  },
+
+  kickFromParty: (userId) => {
+    const { socket } = get();
+    if (socket) {
+      socket.emit('party-kick', { userId });
+    }
+  },
+
   // Game Room Actions
-  createRoom: async (gameType, matchType = 'casual') => {
+  createRoom: async (gameType) => {
     try {
       const token = localStorage.getItem('token');
       const response = await fetch(`${import.meta.env.VITE_API_URL}/api/games/create`, {
@@ -486,7 +819,7 @@ export const useGameStore = create<GameStoreState>((set, get) => ({
           'Content-Type': 'application/json',
           'Authorization': `Bearer ${token}`
         },
-        body: JSON.stringify({ gameType, matchType })
+        body: JSON.stringify({ gameType })
       });
 
       const data = await response.json();
@@ -524,20 +857,52 @@ export const useGameStore = create<GameStoreState>((set, get) => ({
   },
 
   leaveRoom: () => {
-    const { socket } = get();
+    const { socket, isSpectating } = get();
     if (socket) {
-      socket.emit('leave-room');
+      socket.emit(isSpectating ? 'stop-spectating' : 'leave-room');
     }
     set({ 
       currentRoom: null, 
       gameState: null, 
       isMyTurn: false,
+      legalMoves: [],
+      takebackRequest: null,
+      drawOffer: null,
+      chatMessages: [],
+      isSpectating: false,
+      spectatorCount: 0,
       gameResult: null,
       gameStats: null,
-      showResultScreen: false
+      showResultScreen: false,
+      eloChange: null
     });
   },
 
+  // Spectating Actions
+  fetchLiveGames: async (gameType) => {
+    try {
+      const token = localStorage.getItem('token');
+      const query = gameType ? `?gameType=${gameType}` : '';
+      const response = await fetch(`${import.meta.env.VITE_API_URL}/api/games/live${query}`, {
+        headers: { 'Authorization': `Bearer ${token}` }
+      });
+
+      const data = await response.json();
+      if (data.success) {
+        set({ liveGames: data.data });
+      }
+    } catch (error) {
+      console.error('Error fetching live games:', error);
+    }
+  },
+
+  spectateGame: (target) => {
+    const { socket } = get();
+    if (socket) {
+      socket.emit('spectate-game', target);
+    }
+  },
+
   // Gameplay Actions
   makeMove: (move) => {
     const { socket, isMyTurn } = get();
@@ -547,6 +912,43 @@ export const useGameStore = create<GameStoreState>((set, get) => ({
     playSound('makeMove');
   },
 
+  fetchLegalMoves: () => {
+    const { socket, isMyTurn } = get();
+    if (!socket || !isMyTurn) return;
+
+    socket.emit('get-legal-moves');
+  },
+
+  requestTakeback: () => {
+    const { socket } = get();
+    if (socket) {
+      socket.emit('request-takeback');
+    }
+  },
+
+  respondToTakeback: (accept) => {
+    const { socket } = get();
+    if (socket) {
+      socket.emit('respond-takeback', { accept });
+    }
+    set({ takebackRequest: null });
+  },
+
+  offerDraw: () => {
+    const { socket } = get();
+    if (socket) {
+      socket.emit('offer-draw');
+    }
+  },
+
+  respondToDraw: (accept) => {
+    const { socket } = get();
+    if (socket) {
+      socket.emit('respond-draw', { accept });
+    }
+    set({ drawOffer: null });
+  },
+
   forfeitGame: () => {
     const { socket } = get();
     if (socket) {
@@ -563,6 +965,13 @@ export const useGameStore = create<GameStoreState>((set, get) => ({
     }
   },
 
+  sendChatMessage: (message) => {
+    const { socket } = get();
+    if (socket && message.trim()) {
+      socket.emit('send-chat', { message });
+    }
+  },
+
   // Results & Stats Actions
   setGameResult: (result, stats) => {
     set({ 
@@ -574,9 +983,9 @@ export const useGameStore = create<GameStoreState>((set, get) => ({
     const { currentUserId } = get();
     
     // Play appropriate sound
-    if (result.result === 'draw') {
+    if (result.result === 'draw' || (!result.winner && currentUserId && result.placements?.[currentUserId] === 1)) {
       playSound('draw');
-    } else if (result.winner?.id === currentUserId) {
+    } else if (result.winner && currentUserId && (result.winner.id === currentUserId || result.placements?.[currentUserId] === 1)) {
       playSound('victory');
     } else {
       playSound('defeat');
@@ -4,10 +4,12 @@ export interface GameResult {
     isFinished: boolean;
     result: 'win' | 'draw' | 'forfeit' | 'timeout' | 'disconnect';
     winner?: Player | null;
+    winningTeam?: number | null; // in team games the winner's whole side wins
     scores: Record<string, number>;
     duration: number;
     totalMoves: number;
     endReason: string;
+    placements?: Record<string, number>; // final standing by player id, 1 is best
   }
   
   export interface GameStats {
@@ -59,6 +61,17 @@ export interface GameResult {
     hoursPlayed: number;
     favoriteGame: string;
     achievements: Achievement[];
+    ratings?: GameRating[]; // one per game type and match type the player has been rated in
+  }
+
+  export interface GameRating {
+    gameType: string;
+    matchType: 'casual' | 'ranked';
+    rating: number;
+    deviation: number;
+    gamesPlayed: number;
+    provisional: boolean;
+    rank: number;
   }
   
   export interface Achievement {
@@ -8,6 +8,9 @@ export interface User {
     id: string;
     username: string;
     socketId?: string;
+    isBot?: boolean;
+    provisional?: boolean;
+    team?: number; // side in team games
   }
   
   export interface GameState {
@@ -19,6 +22,15 @@ export interface User {
     gameType?: string;
     moveCount?: number;
     lastMove?: unknown;
+    clocks?: GameClocks | null;
+  }
+
+  export interface GameClocks {
+    remaining: Record<string, number>; // ms, as of when the state was sent
+    activePlayerId: string | null;
+    initialTime: number;
+    increment: number;
+    delay: number;
   }
   
   export interface GameRoom {